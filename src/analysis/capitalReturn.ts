@@ -0,0 +1,108 @@
+import _ from "lodash";
+import { DateTime } from "luxon";
+import type { ChartEventDividend, ChartResultArrayQuote } from "yahoo-finance2/modules/chart";
+import type { AnnualStatement, PeriodType, QuarterlyStatement, StatementPayload } from "../api/types";
+import { isContiguousQuarters } from "./dataQuality";
+import { createMetricTracker } from "./metric";
+import { sumAll } from "./valuation";
+
+interface CapitalReturnInput {
+    dividends: ChartEventDividend[];
+    prices: ChartResultArrayQuote[];
+    price: number;
+    marketCap: number | undefined;
+    ttm: { eps: number; fcfPerShare: number | null; stockBasedCompensation: number } | null;
+    quarterlyStatements: QuarterlyStatement[];
+    annualStatements: AnnualStatement[];
+}
+
+const shareCount = (s: StatementPayload<PeriodType>) => s.ordinarySharesNumber ?? s.shareIssued;
+
+/** Period ends 11 to 13 months apart, wide enough for 52/53-week fiscal calendars. */
+const isAboutAYearApart = (earlier: StatementPayload<PeriodType> | undefined, later: StatementPayload<PeriodType> | undefined) =>
+    !!earlier && !!later && Math.abs(later.date.diff(earlier.date, "months").months - 12) <= 1;
+
+function dividendsPerShare(dividends: ChartEventDividend[], start: DateTime, end: DateTime) {
+    return _.sumBy(dividends.filter(d => {
+        const date = DateTime.fromJSDate(d.date);
+        return date > start && date <= end;
+    }), d => d.amount);
+}
+
+/**
+ * Dividends, buybacks and dilution. Dividend figures come from the dividend events of the price chart, so dividend
+ * growth can only look back as far as the price window. Buyback yield is the fall in period-end share count over the
+ * last year, so it is net of shares issued for stock compensation; dilution is the annualised change in share count
+ * across the annual statements (positive means more shares).
+ */
+export function calculateCapitalReturn(input: CapitalReturnInput) {
+    const { compute, markUnavailable, unavailable } = createMetricTracker();
+    const { dividends, prices, price, marketCap, ttm } = input;
+
+    const asOf = DateTime.fromJSDate(_.maxBy(prices, p => p.date)!.date);
+    const earliestPrice = DateTime.fromJSDate(_.minBy(prices, p => p.date)!.date);
+    const ttmDividendPerShare = dividendsPerShare(dividends, asOf.minus({ years: 1 }), asOf);
+
+    const dividendGrowth = (() => {
+        const span = Math.floor(asOf.diff(earliestPrice, "years").years) - 1;
+        if (span < 1) {
+            return markUnavailable("dividendGrowth", "price history shorter than two years");
+        }
+        const start = asOf.minus({ years: span + 1 });
+        const earliestDividendPerShare = dividendsPerShare(dividends, start, start.plus({ years: 1 }));
+        return compute("dividendGrowth",
+            { earliestDividendPerShare, ttmDividendPerShare },
+            v => v.earliestDividendPerShare > 0 && v.ttmDividendPerShare > 0
+                ? Math.pow(v.ttmDividendPerShare / v.earliestDividendPerShare, 1 / span) - 1
+                : null);
+    })();
+
+    const quarters = _.sortBy(input.quarterlyStatements, s => s.date);
+    const years = _.sortBy(input.annualStatements, s => s.date);
+    // Four quarters back when that is a year before the latest quarter, otherwise the previous fiscal year.
+    const [yearAgo, latest] = isAboutAYearApart(quarters.at(-5), quarters.at(-1)) ? [quarters.at(-5), quarters.at(-1)]
+        : isAboutAYearApart(years.at(-2), years.at(-1)) ? [years.at(-2), years.at(-1)]
+        : [undefined, undefined];
+    const sharesYearAgo = yearAgo && shareCount(yearAgo);
+    const sharesNow = latest && shareCount(latest);
+
+    const dividendYield = compute("dividendYield", { ttmDividendPerShare, price }, v => v.price > 0 ? v.ttmDividendPerShare / v.price : null);
+    const netBuybackYield = yearAgo
+        ? compute("netBuybackYield",
+            { sharesYearAgo, sharesNow },
+            v => v.sharesYearAgo > 0 ? (v.sharesYearAgo - v.sharesNow) / v.sharesYearAgo : null)
+        : markUnavailable("netBuybackYield", "no statement from a year before the latest one");
+
+    const first = years[0];
+    const last = years.at(-1);
+    const dilutionRate = first && last && first !== last
+        ? compute("dilutionRate",
+            { firstShares: shareCount(first), lastShares: shareCount(last) },
+            v => v.firstShares > 0 ? Math.pow(v.lastShares / v.firstShares, 1 / last.date.diff(first.date, "years").years) - 1 : null)
+        : markUnavailable("dilutionRate", "needs two fiscal years of statements");
+
+    const lastQuarters = quarters.slice(-4);
+    const optionExerciseProceeds = lastQuarters.length === 4 && isContiguousQuarters(lastQuarters)
+        ? compute("optionExerciseProceeds",
+            { proceedsFromStockOptionExercised: sumAll(lastQuarters.map(s => s.proceedsFromStockOptionExercised)) },
+            v => v.proceedsFromStockOptionExercised)
+        : markUnavailable("optionExerciseProceeds", "needs four contiguous quarters");
+
+    return {
+        ttmDividendPerShare,
+        dividendYield,
+        payoutRatio: compute("payoutRatio", { ttmDividendPerShare, eps: ttm?.eps }, v => v.eps > 0 ? v.ttmDividendPerShare / v.eps : null),
+        fcfPayoutRatio: compute("fcfPayoutRatio",
+            { ttmDividendPerShare, fcfPerShare: ttm?.fcfPerShare },
+            v => v.fcfPerShare > 0 ? v.ttmDividendPerShare / v.fcfPerShare : null),
+        dividendGrowth,
+        netBuybackYield,
+        dilutionRate,
+        stockBasedCompensationYield: compute("stockBasedCompensationYield",
+            { stockBasedCompensation: ttm?.stockBasedCompensation, marketCap },
+            v => v.marketCap > 0 ? v.stockBasedCompensation / v.marketCap : null),
+        optionExerciseProceeds,
+        totalShareholderYield: dividendYield !== null && netBuybackYield !== null ? dividendYield + netBuybackYield : null,
+        unavailable
+    };
+}
@@ -0,0 +1,191 @@
+import _ from "lodash";
+import { DateTime } from "luxon";
+import type { ChartResultArrayQuote } from "yahoo-finance2/modules/chart";
+import { fetchPrices } from "../api/api";
+import type { PeriodType, StatementPayload } from "../api/types";
+import { upsertFxRates } from "../lib/store";
+import { memoize } from "../lib/utils";
+
+interface FxPoint {
+    date: DateTime;
+    rate: number;
+}
+
+export interface FxSeries {
+    from: string;
+    to: string;
+    /** Rate at the last close on or before `date`, or the earliest rate when `date` precedes the series. */
+    closingRate(date: DateTime): number;
+    /** Mean of the daily rates in `(start, end]`, falling back to the closing rate at `end` when there are none. */
+    averageRate(start: DateTime, end: DateTime): number;
+    latestRate(): number;
+}
+
+/** Quotes in minor units (pence, cents) map to their major currency and the factor between the two. */
+const minorUnits: Record<string, [string, number]> = {
+    GBp: ["GBP", 0.01],
+    GBX: ["GBP", 0.01],
+    ZAc: ["ZAR", 0.01],
+    ILA: ["ILS", 0.01],
+};
+
+const majorUnit = (currency: string): [string, number] => minorUnits[currency] ?? [currency, 1];
+
+function createFxSeries(from: string, to: string, points: FxPoint[]): FxSeries {
+    const sorted = _.sortBy(points, p => p.date.toMillis());
+    if (sorted.length === 0) {
+        throw new Error(`No FX rates for ${from} to ${to}`);
+    }
+
+    const closingRate = (date: DateTime) => {
+        const day = date.endOf("day");
+        return (_.findLast(sorted, p => p.date <= day) ?? sorted[0]!).rate;
+    };
+
+    return {
+        from,
+        to,
+        closingRate,
+        averageRate(start, end) {
+            const window = sorted.filter(p => p.date > start.endOf("day") && p.date <= end.endOf("day"));
+            return window.length ? _.meanBy(window, p => p.rate) : closingRate(end);
+        },
+        latestRate: () => sorted[sorted.length - 1]!.rate,
+    };
+}
+
+function quotesToPoints(quotes: ChartResultArrayQuote[], invert: boolean): FxPoint[] {
+    return quotes
+        .filter(q => q.close !== null && q.close !== undefined && q.close > 0)
+        .map(q => ({ date: DateTime.fromJSDate(q.date), rate: invert ? 1 / q.close! : q.close! }));
+}
+
+/** One leg between two major currencies: the direct `{from}{to}=X` pair, or the inverse pair. */
+async function fetchLeg(from: string, to: string): Promise<FxPoint[]> {
+    if (from === to) {
+        return [{ date: DateTime.fromMillis(0), rate: 1 }];
+    }
+    for (const [pair, invert] of [[`${from}${to}=X`, false], [`${to}${from}=X`, true]] as const) {
+        try {
+            const points = quotesToPoints(await fetchPrices(pair), invert);
+            if (points.length) {
+                return points;
+            }
+        } catch {
+            // Try the next pair.
+        }
+    }
+    throw new Error(`No FX pair available for ${from} to ${to}`);
+}
+
+const __fetchFxSeries = memoize(async (key: string): Promise<FxSeries> => {
+    const [from, to] = key.split(":") as [string, string];
+    const [fromMajor, fromFactor] = majorUnit(from);
+    const [toMajor, toFactor] = majorUnit(to);
+    const unitFactor = fromFactor / toFactor;
+
+    let points: FxPoint[];
+    try {
+        points = await fetchLeg(fromMajor, toMajor);
+    } catch (error) {
+        if (fromMajor === "USD" || toMajor === "USD") {
+            throw error;
+        }
+        const toUsd = await fetchLeg(fromMajor, "USD");
+        const fromUsd = createFxSeries("USD", toMajor, await fetchLeg("USD", toMajor));
+        points = toUsd.map(p => ({ date: p.date, rate: p.rate * fromUsd.closingRate(p.date) }));
+    }
+
+    const rates = points.map(p => ({ date: p.date, rate: p.rate * unitFactor }));
+    upsertFxRates(from, to, rates.filter(p => p.date.toMillis() > 0));
+    return createFxSeries(from, to, rates);
+}, { hours: 12 });
+
+/**
+ * Daily rates for converting `from` into `to`. Falls back to triangulating through USD when Yahoo has neither
+ * the direct nor the inverse pair. Series are fetched once per pair and shared by every symbol for 12 hours.
+ */
+export const fetchFxSeries = (from: string, to: string) => __fetchFxSeries(`${from}:${to}`);
+
+/** The series as it stood at `asOf`: later dates get the closing rate of `asOf`, which is also the latest rate. */
+export function fxUpTo(fx: FxSeries, asOf: DateTime): FxSeries {
+    const capped = (date: DateTime) => date > asOf ? asOf : date;
+    return {
+        from: fx.from,
+        to: fx.to,
+        closingRate: date => fx.closingRate(capped(date)),
+        averageRate: (start, end) => fx.averageRate(capped(start), capped(end)),
+        latestRate: () => fx.closingRate(asOf),
+    };
+}
+
+const nonCurrencyFields = new Set([
+    "date",
+    "periodType",
+    "TYPE",
+    "basicAverageShares",
+    "dilutedAverageShares",
+    "ordinarySharesNumber",
+    "shareIssued",
+    "taxRateForCalcs"
+]);
+
+/** Stock items measured at the statement date, converted at the closing rate. Every other amount is a flow. */
+const balanceFields = new Set([
+    "accountsPayable", "accountsReceivable", "additionalPaidInCapital", "allowanceForDoubtfulAccountsReceivable",
+    "capitalLeaseObligations", "capitalStock", "cashAndCashEquivalents", "cashCashEquivalentsAndShortTermInvestments",
+    "commonStock", "commonStockEquity", "currentAccruedExpenses", "currentAssets", "currentCapitalLeaseObligation",
+    "currentDebtAndCapitalLeaseObligation", "currentDeferredLiabilities", "currentDeferredRevenue", "currentLiabilities",
+    "endCashPosition", "gainsLossesNotAffectingRetainedEarnings", "goodwill", "goodwillAndOtherIntangibleAssets",
+    "grossAccountsReceivable", "grossPPE", "incomeTaxPayable", "inventory", "investedCapital", "longTermCapitalLeaseObligation",
+    "longTermDebt", "longTermDebtAndCapitalLeaseObligation", "minorityInterest", "netPPE", "netTangibleAssets",
+    "nonCurrentDeferredAssets", "nonCurrentDeferredLiabilities", "nonCurrentDeferredTaxesAssets", "nonCurrentDeferredTaxesLiabilities",
+    "otherCurrentAssets", "otherEquityAdjustments", "otherIntangibleAssets", "otherNonCurrentAssets", "otherNonCurrentLiabilities",
+    "otherProperties", "otherReceivables", "otherShortTermInvestments", "payables", "payablesAndAccruedExpenses",
+    "pensionandOtherPostRetirementBenefitPlansCurrent", "receivables", "retainedEarnings", "stockholdersEquity",
+    "tangibleBookValue", "totalAssets", "totalCapitalization", "totalDebt", "totalEquityGrossMinorityInterest",
+    "totalLiabilitiesNetMinorityInterest", "totalNonCurrentAssets", "totalNonCurrentLiabilitiesNetMinorityInterest",
+    "totalTaxPayable", "workingCapital"
+]);
+
+const periodLength = (periodType: PeriodType) => periodType === "3M" ? { months: 3 } : { months: 12 };
+
+/**
+ * Converts statements with the rate that matches each field: balance items at the closing rate of the statement
+ * date, the opening cash position at the closing rate of the period start, and flows (income, cash flow and
+ * per-share amounts such as EPS) at the average rate over the period.
+ */
+export function convertStatements<T extends StatementPayload<PeriodType>>(statements: T[], fx: FxSeries): T[] {
+    return statements.map(statement => {
+        const periodStart = statement.date.minus(periodLength(statement.periodType));
+        const closing = fx.closingRate(statement.date);
+        const opening = fx.closingRate(periodStart);
+        const average = fx.averageRate(periodStart, statement.date);
+        const converted = { ...statement };
+
+        for (const [key, value] of Object.entries(statement)) {
+            if (typeof value !== "number" || nonCurrencyFields.has(key)) {
+                continue;
+            }
+            const rate = key === "beginningCashPosition" ? opening : balanceFields.has(key) ? closing : average;
+            (converted as any)[key] = value * rate;
+        }
+        return converted;
+    });
+}
+
+/** Converts every price of a chart at the closing rate of its own day. */
+export function convertPrices(prices: ChartResultArrayQuote[], fx: FxSeries): ChartResultArrayQuote[] {
+    const scale = (value: number | null | undefined, rate: number) => value === null || value === undefined ? value : value * rate;
+    return prices.map(quote => {
+        const rate = fx.closingRate(DateTime.fromJSDate(quote.date));
+        return {
+            ...quote,
+            open: scale(quote.open, rate) as number | null,
+            high: scale(quote.high, rate) as number | null,
+            low: scale(quote.low, rate) as number | null,
+            close: scale(quote.close, rate) as number | null,
+            adjclose: scale(quote.adjclose, rate)
+        };
+    });
+}
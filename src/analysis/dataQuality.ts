@@ -0,0 +1,253 @@
+import _ from "lodash";
+import { DateTime } from "luxon";
+import type { ChartResultArrayQuote } from "yahoo-finance2/modules/chart";
+import type { QuoteSummaryResult } from "yahoo-finance2/modules/quoteSummary";
+import type { AnnualStatement, PeriodType, QuarterlyStatement, StatementPayload } from "../api/types";
+import { isPresentOnlyModule } from "../lib/pointInTime";
+
+export type WarningCode =
+    | "missing_module"
+    | "missing_quarter"
+    | "duplicate_quarter"
+    | "quarter_gap"
+    | "missing_field"
+    | "restatement"
+    | "share_count_jump"
+    | "currency_mismatch"
+    | "stale_prices";
+
+export interface DataWarning {
+    code: WarningCode;
+    message: string;
+    /** Statement date the warning refers to, if any. */
+    date?: string;
+}
+
+/** Days between consecutive fiscal quarters; 52/53-week calendars put quarter ends 84 to 98 days apart. */
+const quarterDays = { min: 75, max: 105 };
+
+/** Share counts that change by this factor or more between periods are more likely a unit error than dilution. */
+const shareJumpFactor = 10;
+
+/** Relative difference between the quarters and the fiscal year they add up to before a restatement is flagged. */
+const restatementTolerance = 0.02;
+
+/** Fields the trailing metrics are built on; a quarter without them makes the TTM figures unreliable. */
+const coreQuarterFields = ["totalRevenue", "operatingIncome", "netIncome", "freeCashFlow"] as const;
+
+const coreBalanceFields = ["totalDebt", "cashAndCashEquivalents", "stockholdersEquity", "totalAssets"] as const;
+
+const summaryModules = ["price", "summaryDetail", "defaultKeyStatistics", "financialData"] as const;
+
+const flowFieldsToReconcile = ["totalRevenue", "netIncome", "operatingIncome"] as const;
+
+const isoDate = (date: DateTime) => date.toISODate()!;
+
+const daysBetween = (a: StatementPayload<PeriodType>, b: StatementPayload<PeriodType>) => Math.round(b.date.diff(a.date, "days").days);
+
+/** True when the statements, in date order, are consecutive fiscal quarters with no gaps or repeats. */
+export function isContiguousQuarters(statements: StatementPayload<PeriodType>[]) {
+    return statements.every((statement, i) => {
+        if (i === 0) {
+            return true;
+        }
+        const days = daysBetween(statements[i - 1]!, statement);
+        return days >= quarterDays.min && days <= quarterDays.max;
+    });
+}
+
+function quarterWarnings(quarters: QuarterlyStatement[], asOf: DateTime) {
+    const warnings: DataWarning[] = [];
+    for (const [date, statements] of Object.entries(_.groupBy(quarters, s => isoDate(s.date)))) {
+        if (statements.length > 1) {
+            warnings.push({ code: "duplicate_quarter", date, message: `${statements.length} quarterly statements dated ${date}` });
+        }
+    }
+    const unique = _.uniqBy(quarters, s => isoDate(s.date));
+    unique.slice(1).forEach((statement, i) => {
+        const days = daysBetween(unique[i]!, statement);
+        if (days > quarterDays.max) {
+            const missing = Math.round(days / 91) - 1;
+            warnings.push({
+                code: "quarter_gap",
+                date: isoDate(statement.date),
+                message: `${days} days since the previous quarter (${isoDate(unique[i]!.date)}), about ${Math.max(missing, 1)} quarter(s) missing`
+            });
+        } else if (days < quarterDays.min) {
+            warnings.push({ code: "quarter_gap", date: isoDate(statement.date), message: `Only ${days} days after the previous quarter (${isoDate(unique[i]!.date)})` });
+        }
+    });
+
+    const latest = unique.at(-1);
+    if (unique.length < 4) {
+        warnings.push({ code: "missing_quarter", message: `Only ${unique.length} quarterly statements, four are needed for trailing figures` });
+    }
+    // Results are due within about 45 days of a quarter end (90 for the fiscal year), so allow two quarters plus that.
+    if (latest && asOf.diff(latest.date, "days").days > 91 + 100) {
+        warnings.push({ code: "missing_quarter", date: isoDate(latest.date), message: `Latest quarter ended ${isoDate(latest.date)}, a newer one is overdue` });
+    }
+
+    for (const statement of unique.slice(-4)) {
+        const missing = coreQuarterFields.filter(field => statement[field] === undefined || statement[field] === null);
+        if (missing.length) {
+            warnings.push({ code: "missing_field", date: isoDate(statement.date), message: `Quarter is missing ${missing.join(", ")}` });
+        }
+    }
+    return warnings;
+}
+
+function shareCountWarnings(statements: StatementPayload<PeriodType>[]) {
+    const counted = statements.filter(s => (s.ordinarySharesNumber ?? s.basicAverageShares ?? 0) > 0);
+    return counted.slice(1).flatMap((statement, i) => {
+        const previous = counted[i]!;
+        const ratio = (statement.ordinarySharesNumber ?? statement.basicAverageShares)! / (previous.ordinarySharesNumber ?? previous.basicAverageShares)!;
+        return ratio >= shareJumpFactor || ratio <= 1 / shareJumpFactor
+            ? [{
+                code: "share_count_jump" as const,
+                date: isoDate(statement.date),
+                message: `Share count changed ${ratio.toFixed(2)}x since ${isoDate(previous.date)}, check for a split or a unit error`
+            }]
+            : [];
+    });
+}
+
+/**
+ * Quarters that add up to a fiscal year should match the annual statement. When they do not, one of the two
+ * was restated after the other was published (or a quarter is misreported).
+ */
+function restatementWarnings(quarters: QuarterlyStatement[], years: AnnualStatement[]) {
+    return years.flatMap(year => {
+        const end = quarters.findIndex(q => Math.abs(q.date.diff(year.date, "days").days) <= 7);
+        const window = end >= 3 ? quarters.slice(end - 3, end + 1) : [];
+        if (window.length < 4 || !isContiguousQuarters(window)) {
+            return [];
+        }
+        return flowFieldsToReconcile.flatMap(field => {
+            const annual = year[field];
+            const values = window.map(q => q[field]);
+            if (annual === undefined || annual === 0 || values.some(v => v === undefined)) {
+                return [];
+            }
+            const quarterly = _.sum(values);
+            const difference = Math.abs(quarterly - annual) / Math.abs(annual);
+            return difference > restatementTolerance
+                ? [{
+                    code: "restatement" as const,
+                    date: isoDate(year.date),
+                    message: `${field} of the four quarters (${quarterly}) differs from the fiscal year (${annual}) by ${(difference * 100).toFixed(1)}%`
+                }]
+                : [];
+        });
+    });
+}
+
+function currencyWarnings(quoteSummary: QuoteSummaryResult) {
+    const warnings: DataWarning[] = [];
+    const priceCurrency = quoteSummary.price?.currency;
+    const statementCurrency = quoteSummary.financialData?.financialCurrency;
+    const detailCurrency = quoteSummary.summaryDetail?.currency;
+    if (priceCurrency && detailCurrency && priceCurrency !== detailCurrency) {
+        warnings.push({ code: "currency_mismatch", message: `Price is quoted in ${priceCurrency} but summary details in ${detailCurrency}` });
+    }
+    if (quoteSummary.price?.quoteType === "EQUITY" && !statementCurrency) {
+        warnings.push({ code: "currency_mismatch", message: `No statement currency reported, statements are assumed to be in ${priceCurrency}` });
+    }
+    const estimateCurrency = quoteSummary.earningsTrend?.trend.find(t => t.earningsEstimate.earningsCurrency)?.earningsEstimate.earningsCurrency;
+    if (estimateCurrency && statementCurrency && estimateCurrency !== statementCurrency) {
+        warnings.push({ code: "currency_mismatch", message: `EPS estimates are in ${estimateCurrency} but statements in ${statementCurrency}` });
+    }
+    return warnings;
+}
+
+/**
+ * Warnings keyed by code, so that a flattened column such as `dataQuality.warnings.quarter_gap.count` means the same
+ * thing for every symbol and run. Each code has its count, the statement dates it refers to and the messages joined.
+ */
+function groupWarnings(warnings: DataWarning[]) {
+    return _.mapValues(_.groupBy(_.sortBy(warnings, w => w.code), w => w.code), group => ({
+        count: group.length,
+        dates: _.uniq(group.flatMap(w => w.date ?? [])).join(", ") || null,
+        message: group.map(w => w.message).join("; ")
+    })) as Partial<Record<WarningCode, { count: number; dates: string | null; message: string }>>;
+}
+
+/**
+ * Checks the fetched summary, statements and prices before any metric is computed. Every problem becomes a
+ * structured warning rather than an exception. `completeness` is the share of expected inputs that are present:
+ * the core summary modules, four contiguous quarters with their core income and cash-flow fields, and the core
+ * balance-sheet fields of the latest quarter. `unreliable` names the result sections and metrics built on inputs
+ * with problems, with the reason. With `asOf` the checks are made as of that date, and the summary modules a
+ * point-in-time run drops on purpose are not expected.
+ */
+export function validateData(input: {
+    quoteSummary: QuoteSummaryResult;
+    quarterlyStatements: QuarterlyStatement[];
+    annualStatements: AnnualStatement[];
+    prices: ChartResultArrayQuote[];
+}, asOf: DateTime | null = null) {
+    const { quoteSummary } = input;
+    const referenceDate = asOf ?? DateTime.now();
+    // A point-in-time summary leaves out the modules that only describe the present, so they are not expected.
+    const expectedModules = asOf ? summaryModules.filter(module => !isPresentOnlyModule(module)) : summaryModules;
+    const isEquity = quoteSummary.price?.quoteType === "EQUITY";
+    const quarters = _.sortBy(input.quarterlyStatements, s => s.date.toMillis());
+    const years = _.sortBy(input.annualStatements, s => s.date.toMillis());
+    const warnings: DataWarning[] = [];
+
+    const missingModules = expectedModules.filter(module => !quoteSummary[module]);
+    if (missingModules.length) {
+        warnings.push({ code: "missing_module", message: `Quote summary has no ${missingModules.join(", ")}` });
+    }
+    const latestPrice = _.maxBy(input.prices, p => p.date);
+    if (latestPrice && referenceDate.diff(DateTime.fromJSDate(latestPrice.date), "days").days > 7) {
+        warnings.push({ code: "stale_prices", message: `Latest price is from ${DateTime.fromJSDate(latestPrice.date).toISODate()}` });
+    }
+    warnings.push(...currencyWarnings(quoteSummary));
+
+    const unreliable: Record<string, string> = {};
+    let expected = expectedModules.length;
+    let present = expectedModules.length - missingModules.length;
+
+    if (isEquity) {
+        const quarterIssues = quarterWarnings(quarters, referenceDate);
+        const shareIssues = [...shareCountWarnings(quarters), ...shareCountWarnings(years)];
+        const restatements = restatementWarnings(quarters, years);
+        warnings.push(...quarterIssues, ...shareIssues, ...restatements);
+
+        const lastFour = _.uniqBy(quarters, s => isoDate(s.date)).slice(-4);
+        const contiguous = lastFour.length === 4 && isContiguousQuarters(lastFour);
+        const latest = lastFour.at(-1);
+        expected += 1 + 4 * coreQuarterFields.length + coreBalanceFields.length;
+        present += (contiguous ? 1 : 0)
+            + _.sumBy(lastFour, q => coreQuarterFields.filter(f => q[f] !== undefined && q[f] !== null).length)
+            + (latest ? coreBalanceFields.filter(f => latest[f] !== undefined && latest[f] !== null).length : 0);
+
+        if (!contiguous) {
+            unreliable.thisPeriod = lastFour.length < 4
+                ? "fewer than four quarters, trailing figures come from Yahoo's TTM statement if at all"
+                : "last four quarters are not contiguous, trailing figures come from Yahoo's TTM statement if at all";
+        }
+        const missingFields = quarterIssues.filter(w => w.code === "missing_field");
+        if (missingFields.length) {
+            unreliable["marginsAndGrowth"] = `missing fields in ${missingFields.map(w => w.date).join(", ")}`;
+        }
+        if (shareIssues.length) {
+            unreliable["valuation.fcfPerShare"] = "share count jumps between periods";
+            unreliable["capitalReturn.netBuybackYield"] = "share count jumps between periods";
+            unreliable["capitalReturn.dilutionRate"] = "share count jumps between periods";
+        }
+        if (restatements.length) {
+            unreliable["returnOnCapital"] = `quarters and fiscal years disagree for ${_.uniq(restatements.map(w => w.date)).join(", ")}`;
+        }
+        if (warnings.some(w => w.code === "currency_mismatch")) {
+            unreliable["valuation"] = "currencies of prices, statements or estimates are inconsistent";
+        }
+    }
+
+    return {
+        completeness: expected > 0 ? present / expected : null,
+        warningCount: warnings.length,
+        warnings: groupWarnings(warnings),
+        unreliable
+    };
+}
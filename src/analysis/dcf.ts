@@ -0,0 +1,180 @@
+import _ from "lodash";
+import { createMetricTracker } from "./metric";
+import { calculateNetDebt } from "./valuation";
+
+export interface DcfAssumptions {
+    discountRate: number;
+    terminalGrowthRate: number;
+    /** Years the starting growth rate is held before it fades. */
+    highGrowthYears: number;
+    /** Years over which growth steps down linearly from the starting rate to the terminal rate. */
+    fadeYears: number;
+    /** Subtract stock-based compensation from free cash flow before projecting it. */
+    sbcAdjusted: boolean;
+}
+
+interface DcfInput {
+    freeCashFlow: number | null | undefined;
+    stockBasedCompensation: number | null | undefined;
+    /** Latest debt, cash and lease figures, netted the same way as `valuation.netDebt`. */
+    balance: Parameters<typeof calculateNetDebt>[0];
+    minorityInterest: number | null | undefined;
+    sharesOutstanding: number | null | undefined;
+    price: number;
+    /** Candidate starting growth rates, most preferred first; the first one that is a number is used. */
+    growthCandidates: { source: string; value: number | null | undefined }[];
+}
+
+/**
+ * Analyst growth for a year coming out of a trough can run to several hundred percent, which no business sustains
+ * for a decade, so the starting rate is held within these bounds.
+ */
+const startingGrowthBounds = { min: -0.1, max: 0.3 };
+
+/** Range searched by the reverse DCF for the starting growth rate implied by the price. */
+const impliedGrowthBounds = { min: -0.5, max: 1 };
+
+const sensitivitySteps = {
+    discountRate: [-0.02, -0.01, 0, 0.01, 0.02],
+    startingGrowth: [-0.1, -0.05, 0, 0.05, 0.1],
+};
+
+/** Growth rate of each forecast year: held at `startingGrowth`, then faded linearly to the terminal rate. */
+function growthPath(startingGrowth: number, assumptions: DcfAssumptions) {
+    const { highGrowthYears, fadeYears, terminalGrowthRate } = assumptions;
+    return [
+        ...Array.from({ length: highGrowthYears }, () => startingGrowth),
+        ...Array.from({ length: fadeYears }, (_year, i) => startingGrowth + (terminalGrowthRate - startingGrowth) * (i + 1) / fadeYears),
+    ];
+}
+
+/** Present value of the forecast years and of the terminal value (Gordon growth on the last forecast year). */
+function presentValue(baseFcf: number, startingGrowth: number, assumptions: DcfAssumptions) {
+    const { discountRate, terminalGrowthRate } = assumptions;
+    let fcf = baseFcf;
+    let forecast = 0;
+    const path = growthPath(startingGrowth, assumptions);
+    path.forEach((growth, i) => {
+        fcf *= 1 + growth;
+        forecast += fcf / (1 + discountRate) ** (i + 1);
+    });
+    const terminal = fcf * (1 + terminalGrowthRate) / (discountRate - terminalGrowthRate) / (1 + discountRate) ** path.length;
+    return { forecast, terminal };
+}
+
+function valuePerShare(baseFcf: number, startingGrowth: number, claims: number, shares: number, assumptions: DcfAssumptions) {
+    const { forecast, terminal } = presentValue(baseFcf, startingGrowth, assumptions);
+    return (forecast + terminal - claims) / shares;
+}
+
+/** Starting growth rate at which the DCF value per share equals `price`, found by bisection. */
+function impliedGrowth(baseFcf: number, claims: number, shares: number, price: number, assumptions: DcfAssumptions) {
+    let { min: low, max: high } = impliedGrowthBounds;
+    const value = (growth: number) => valuePerShare(baseFcf, growth, claims, shares, assumptions) - price;
+    if (value(low) > 0 || value(high) < 0) {
+        return null;
+    }
+    for (let i = 0; i < 100 && high - low > 1e-7; i++) {
+        const middle = (low + high) / 2;
+        if (value(middle) < 0) {
+            low = middle;
+        } else {
+            high = middle;
+        }
+    }
+    return (low + high) / 2;
+}
+
+/**
+ * Two-stage DCF on TTM free cash flow (optionally net of stock-based compensation). Stage one projects the cash
+ * flow at the starting growth rate for `highGrowthYears`, then fades it linearly to the terminal rate over
+ * `fadeYears`; stage two is a Gordon-growth terminal value. Net debt (as in `valuation.netDebt`) and minority
+ * interest are deducted from the enterprise value to get the equity value per share. Margin of safety is the
+ * discount of the price to that value, and `impliedGrowth` is the starting growth rate the current price discounts
+ * (the reverse DCF). The inputs needed to rerun the model are kept in the result for `calculateDcfSensitivity`.
+ */
+export function calculateDcf(input: DcfInput, assumptions: DcfAssumptions) {
+    const { compute, markUnavailable, unavailable } = createMetricTracker();
+    const growth = input.growthCandidates.find(c => typeof c.value === "number" && Number.isFinite(c.value));
+    const startingGrowth = growth
+        ? Math.min(Math.max(growth.value!, startingGrowthBounds.min), startingGrowthBounds.max)
+        : markUnavailable("startingGrowth", "no analyst or historical growth rate");
+
+    const baseFcf = assumptions.sbcAdjusted
+        ? compute("baseFcf", { freeCashFlow: input.freeCashFlow, stockBasedCompensation: input.stockBasedCompensation ?? 0 }, v => v.freeCashFlow - v.stockBasedCompensation)
+        : compute("baseFcf", { freeCashFlow: input.freeCashFlow }, v => v.freeCashFlow);
+    const netDebt = calculateNetDebt(input.balance)
+        ?? markUnavailable("netDebt", "balance sheet has neither totalDebt nor totalCash");
+    const claims = netDebt !== null ? netDebt + (input.minorityInterest ?? 0) : null;
+    const shares = input.sharesOutstanding;
+
+    const model = baseFcf !== null && baseFcf > 0 && startingGrowth !== null && shares
+        ? presentValue(baseFcf, startingGrowth, assumptions)
+        : null;
+    if (!model || claims === null) {
+        markUnavailable("intrinsicValue", baseFcf !== null && baseFcf <= 0 ? "free cash flow is not positive"
+            : !shares ? "missing sharesOutstanding"
+            : claims === null ? "missing netDebt"
+            : "missing baseFcf or startingGrowth");
+    }
+
+    const enterpriseValue = model ? model.forecast + model.terminal : null;
+    const equityValue = enterpriseValue !== null && claims !== null ? enterpriseValue - claims : null;
+    const intrinsicValue = equityValue !== null && shares ? equityValue / shares : null;
+
+    return {
+        assumptions: {
+            ...assumptions,
+            startingGrowth,
+            growthSource: growth?.source ?? null,
+        },
+        baseFcf,
+        netDebt,
+        minorityInterest: input.minorityInterest ?? null,
+        sharesOutstanding: shares ?? null,
+        price: input.price,
+        presentValueOfForecast: model?.forecast ?? null,
+        presentValueOfTerminal: model?.terminal ?? null,
+        terminalValueShare: model && enterpriseValue ? model.terminal / enterpriseValue : null,
+        enterpriseValue,
+        equityValue,
+        intrinsicValue,
+        marginOfSafety: intrinsicValue !== null && intrinsicValue > 0
+            ? (intrinsicValue - input.price) / intrinsicValue
+            : markUnavailable("marginOfSafety", "no positive intrinsic value"),
+        impliedGrowth: baseFcf !== null && baseFcf > 0 && shares && claims !== null
+            ? impliedGrowth(baseFcf, claims, shares, input.price, assumptions)
+                ?? markUnavailable("impliedGrowth", `price implies growth outside ${impliedGrowthBounds.min * 100}% to ${impliedGrowthBounds.max * 100}%`)
+            : markUnavailable("impliedGrowth", "needs positive free cash flow, a share count and net debt"),
+        unavailable
+    };
+}
+
+export type DcfResult = ReturnType<typeof calculateDcf>;
+
+/**
+ * Intrinsic value and margin of safety over a grid of discount rates around the assumed one and starting growth
+ * rates around the one used, one row per combination. Combinations where the discount rate does not exceed the
+ * terminal growth rate have no terminal value and are left out.
+ */
+export function calculateDcfSensitivity(dcf: DcfResult) {
+    const { assumptions, baseFcf, sharesOutstanding, price } = dcf;
+    if (baseFcf === null || baseFcf <= 0 || !sharesOutstanding || assumptions.startingGrowth === null || dcf.netDebt === null) {
+        return [];
+    }
+    const claims = dcf.netDebt + (dcf.minorityInterest ?? 0);
+    return sensitivitySteps.discountRate.flatMap(discountStep => sensitivitySteps.startingGrowth.flatMap(growthStep => {
+        const discountRate = _.round(assumptions.discountRate + discountStep, 6);
+        const startingGrowth = _.round(assumptions.startingGrowth! + growthStep, 6);
+        if (discountRate <= assumptions.terminalGrowthRate) {
+            return [];
+        }
+        const intrinsicValue = valuePerShare(baseFcf, startingGrowth, claims, sharesOutstanding, { ...assumptions, discountRate });
+        return [{
+            discountRate,
+            startingGrowth,
+            intrinsicValue,
+            marginOfSafety: intrinsicValue > 0 ? (intrinsicValue - price) / intrinsicValue : null
+        }];
+    }));
+}
@@ -0,0 +1,83 @@
+import _ from "lodash";
+import type { EarningsHistoryHistory, EarningsTrendTrend } from "yahoo-finance2/modules/quoteSummary";
+
+/** Estimate periods reported by `earningsTrend`, under the same names as `growthEstimates`. */
+const trendPeriods = {
+    thisQuarter: "0q",
+    nextQuarter: "+1q",
+    thisYear: "0y",
+    nextYear: "+1y",
+} as const;
+
+const trendWindows = ["7", "30", "60", "90"] as const;
+
+const change = (current: number | null, previous: number | null | undefined) =>
+    current !== null && previous !== null && previous !== undefined && previous !== 0
+        ? (current - previous) / Math.abs(previous)
+        : null;
+
+function surprises(history: EarningsHistoryHistory[]) {
+    const reported = _(history)
+        .filter(h => h.quarter !== null && h.epsActual !== null && h.epsEstimate !== null)
+        .sortBy(h => -h.quarter!.getTime())
+        .take(4)
+        .value();
+
+    // Positive for consecutive beats from the latest quarter, negative for consecutive misses.
+    const outcome = (h: EarningsHistoryHistory) => Math.sign(h.epsActual! - h.epsEstimate!);
+    const latest = reported[0] ? outcome(reported[0]) : 0;
+    const run = latest === 0 ? 0 : _.takeWhile(reported, h => outcome(h) === latest).length;
+
+    return {
+        quarters: _.fromPairs(reported.map((h, i) => [`q${i}`, {
+            quarter: h.quarter,
+            epsActual: h.epsActual,
+            epsEstimate: h.epsEstimate,
+            surprisePercent: h.surprisePercent ?? change(h.epsActual, h.epsEstimate)
+        }])),
+        beats: reported.filter(h => outcome(h) > 0).length,
+        misses: reported.filter(h => outcome(h) < 0).length,
+        streak: latest * run
+    };
+}
+
+function revisions(trend: EarningsTrendTrend | undefined) {
+    const epsTrend = trend?.epsTrend;
+    const current = epsTrend?.current ?? null;
+    return {
+        current,
+        ..._.fromPairs(trendWindows.map(days => [`change${days}d`, change(current, epsTrend?.[`${days}daysAgo`])])) as
+            Record<`change${typeof trendWindows[number]}d`, number | null>,
+        up7d: trend?.epsRevisions?.upLast7days ?? null,
+        down7d: trend?.epsRevisions?.downLast7Days ?? null,
+        up30d: trend?.epsRevisions?.upLast30days ?? null,
+        down30d: trend?.epsRevisions?.downLast30days ?? null
+    };
+}
+
+/**
+ * Earnings surprises over the last four reported quarters and how analysts have moved their EPS estimates.
+ * The momentum score runs from -1 to 1 and averages two signals over the last 30 days across all four periods:
+ * the net share of upward revisions ((up - down) / (up + down)), and the share of periods whose consensus rose
+ * minus the share whose consensus fell. It is null when neither signal is available.
+ */
+export function calculateEarningsMomentum(history: EarningsHistoryHistory[], trends: EarningsTrendTrend[]) {
+    const estimates = _.mapValues(trendPeriods, period => revisions(trends.find(t => t.period === period)));
+    const periods = Object.values(estimates);
+
+    const up = _.sumBy(periods, p => p.up30d ?? 0);
+    const down = _.sumBy(periods, p => p.down30d ?? 0);
+    const changes = periods.map(p => p.change30d).filter((c): c is number => c !== null);
+    const signals = [
+        up + down > 0 ? (up - down) / (up + down) : null,
+        changes.length ? _.meanBy(changes, Math.sign) : null
+    ].filter((s): s is number => s !== null);
+
+    return {
+        surprises: surprises(history),
+        estimates,
+        revisionsUp30d: up,
+        revisionsDown30d: down,
+        momentumScore: signals.length ? _.mean(signals) : null
+    };
+}
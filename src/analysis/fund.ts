@@ -0,0 +1,99 @@
+import _ from "lodash";
+import type { QuoteSummaryResult } from "yahoo-finance2/modules/quoteSummary";
+
+type FundSummary = Pick<QuoteSummaryResult, "topHoldings" | "fundProfile" | "fundPerformance" | "defaultKeyStatistics">;
+
+const performanceWindows = ["ytd", "oneMonth", "threeMonth", "oneYear", "threeYear", "fiveYear", "tenYear"] as const;
+
+function periodReturns(range: Record<string, unknown> | undefined) {
+    return _.fromPairs(performanceWindows.map(window => {
+        const value = range?.[window];
+        return [window, typeof value === "number" ? value : null];
+    })) as Record<typeof performanceWindows[number], number | null>;
+}
+
+/**
+ * Profile of an ETF or mutual fund: costs, category, how concentrated its top holdings are, sector weights and
+ * Yahoo's trailing performance next to the category average. Weights are fractions of the fund's assets; the
+ * Herfindahl index is the sum of squared top-holding weights, so higher means more concentrated.
+ */
+export function calculateFundProfile(summary: FundSummary) {
+    const { topHoldings, fundProfile, fundPerformance } = summary;
+    const fees = fundProfile?.feesExpensesInvestment;
+    const holdings = _.sortBy(topHoldings?.holdings ?? [], h => -h.holdingPercent);
+    const weights = holdings.map(h => h.holdingPercent);
+
+    return {
+        category: fundProfile?.categoryName ?? fundPerformance?.fundCategoryName ?? null,
+        family: fundProfile?.family ?? null,
+        legalType: fundProfile?.legalType ?? null,
+        expenseRatio: fees?.netExpRatio ?? fees?.annualReportExpenseRatio ?? summary.defaultKeyStatistics?.annualReportExpenseRatio ?? null,
+        categoryExpenseRatio: fundProfile?.feesExpensesInvestmentCat?.netExpRatio ?? null,
+        turnover: fees?.annualHoldingsTurnover ?? null,
+        totalNetAssets: fees?.totalNetAssets ?? summary.defaultKeyStatistics?.totalAssets ?? null,
+        allocation: {
+            stock: topHoldings?.stockPosition ?? null,
+            bond: topHoldings?.bondPosition ?? null,
+            cash: topHoldings?.cashPosition ?? null,
+            other: topHoldings?.otherPosition ?? null
+        },
+        concentration: {
+            topHoldings: holdings.length,
+            topHoldingsWeight: weights.length ? _.sum(weights) : null,
+            largestHoldingWeight: weights[0] ?? null,
+            herfindahl: weights.length ? _.sumBy(weights, w => w * w) : null
+        },
+        holdings: _.fromPairs(holdings.map((h, i) => [`top${i + 1}`, { symbol: h.symbol, name: h.holdingName, weight: h.holdingPercent }])),
+        sectorWeights: Object.assign({}, ...(topHoldings?.sectorWeightings ?? [])) as Record<string, number>,
+        performance: {
+            asOfDate: fundPerformance?.trailingReturns?.asOfDate ?? null,
+            fund: periodReturns(fundPerformance?.trailingReturns),
+            category: periodReturns(fundPerformance?.trailingReturnsCat)
+        }
+    };
+}
+
+export interface HoldingResult {
+    symbol: string;
+    weight: number;
+    /** Result of the equity pipeline for the holding, or null when it could not be analysed. */
+    result: {
+        thisPeriod: { pe: number | null } | null;
+        valuation: { fcfYield: number | null };
+        growth: { revenue: { ttm: number | null }; eps: { ttm: number | null } } | null;
+    } | null;
+}
+
+/**
+ * Look-through fundamentals of the top holdings, weighted by their share of the fund. Each metric is averaged over
+ * the holdings that have it and reports the weight it covers. PE is the inverse of the weighted earnings yield, so
+ * a holding with a tiny profit does not swamp the average the way an arithmetic mean of PEs would.
+ */
+export function calculateLookThrough(holdings: HoldingResult[]) {
+    const totalWeight = _.sumBy(holdings, h => h.weight);
+
+    const weighted = (value: (result: NonNullable<HoldingResult["result"]>) => number | null | undefined) => {
+        const covered = holdings
+            .map(h => ({ weight: h.weight, value: h.result ? value(h.result) : null }))
+            .filter((h): h is { weight: number; value: number } => typeof h.value === "number" && Number.isFinite(h.value));
+        const weight = _.sumBy(covered, h => h.weight);
+        return {
+            value: weight > 0 ? _.sumBy(covered, h => h.weight * h.value) / weight : null,
+            coverage: totalWeight > 0 ? weight / totalWeight : null
+        };
+    };
+
+    const earningsYield = weighted(r => r.thisPeriod?.pe ? 1 / r.thisPeriod.pe : null);
+    return {
+        holdingsAnalysed: holdings.filter(h => h.result).length,
+        failedHoldings: holdings.filter(h => !h.result).map(h => h.symbol).join(", "),
+        pe: {
+            value: earningsYield.value && earningsYield.value > 0 ? 1 / earningsYield.value : null,
+            coverage: earningsYield.coverage
+        },
+        earningsYield,
+        fcfYield: weighted(r => r.valuation.fcfYield),
+        revenueGrowth: weighted(r => r.growth?.revenue.ttm),
+        earningsGrowth: weighted(r => r.growth?.eps.ttm)
+    };
+}
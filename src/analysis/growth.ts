@@ -0,0 +1,145 @@
+import _ from "lodash";
+import type { AnnualStatement, PeriodType, QuarterlyStatement, StatementPayload } from "../api/types";
+import { isContiguousQuarters } from "./dataQuality";
+import { createMetricTracker } from "./metric";
+
+type GrowthMetric = "revenue" | "operatingIncome" | "eps" | "fcf" | "fcfPerShare";
+
+type SignChange = "turned positive" | "turned negative" | "negative both periods" | null;
+
+const shares = (s: StatementPayload<PeriodType>) => s.dilutedAverageShares ?? s.basicAverageShares ?? s.ordinarySharesNumber;
+
+/** Each metric from a single statement; EPS falls back to net income over the share count. */
+const metricValues: Record<GrowthMetric, (s: StatementPayload<PeriodType>) => number | undefined> = {
+    revenue: s => s.totalRevenue,
+    operatingIncome: s => s.operatingIncome,
+    eps: s => s.dilutedEPS ?? s.basicEPS ?? (s.netIncome !== undefined && shares(s) ? s.netIncome / shares(s)! : undefined),
+    fcf: s => s.freeCashFlow,
+    fcfPerShare: s => s.freeCashFlow !== undefined && shares(s) ? s.freeCashFlow / shares(s)! : undefined,
+};
+
+const metrics = Object.keys(metricValues) as GrowthMetric[];
+
+/** Statements this many days either side of an anniversary count as the same period a year (or N years) earlier. */
+const anniversaryToleranceDays = 20;
+
+function signChange(previous: number, current: number): SignChange {
+    if (previous < 0 && current >= 0) {
+        return "turned positive";
+    }
+    if (previous >= 0 && current < 0) {
+        return "turned negative";
+    }
+    return previous < 0 ? "negative both periods" : null;
+}
+
+/**
+ * Growth from `previous` to `current`. With a positive base this is the usual ratio; with a negative base it is
+ * the change relative to the size of the base, so a loss of 10 turning into a profit of 5 is +150% and a loss
+ * widening from 10 to 15 is -50%. Only a zero base has no growth rate.
+ */
+export function growthRate(previous: number, current: number) {
+    return previous === 0 ? null : (current - previous) / Math.abs(previous);
+}
+
+/**
+ * Compound annual growth over `years`. When either end is zero or negative there is no compound rate, so the
+ * average annual change relative to the size of the starting value is used instead, as in `growthRate`.
+ */
+export function compoundGrowth(start: number, end: number, years: number) {
+    if (years <= 0 || start === 0) {
+        return null;
+    }
+    return start > 0 && end > 0 ? Math.pow(end / start, 1 / years) - 1 : (end - start) / Math.abs(start) / years;
+}
+
+function findAnniversary<T extends StatementPayload<PeriodType>>(statements: T[], statement: T, years: number) {
+    const target = statement.date.minus({ years });
+    return statements.find(s => Math.abs(s.date.diff(target, "days").days) <= anniversaryToleranceDays);
+}
+
+function trailingValue(quarters: QuarterlyStatement[], metric: GrowthMetric) {
+    if (metric === "fcfPerShare") {
+        const fcf = quarters.map(q => q.freeCashFlow);
+        const latestShares = shares(quarters[quarters.length - 1]!);
+        return fcf.every(v => v !== undefined) && latestShares ? _.sum(fcf) / latestShares : undefined;
+    }
+    const values = quarters.map(metricValues[metric]);
+    return values.every(v => v !== undefined) ? _.sum(values) : undefined;
+}
+
+/**
+ * Growth of revenue, operating income, EPS, FCF and FCF per share, measured so that seasonality cancels out:
+ * each quarter against the same quarter a year earlier, the trailing four quarters against the four before
+ * them, and 3- and 5-year CAGRs between fiscal years. `acceleration` is the latest same-quarter growth minus
+ * the one a quarter earlier, so a positive value means growth is speeding up. `signChange` flags TTM (or
+ * latest-quarter) comparisons where the metric crossed zero or was negative throughout.
+ */
+export function calculateGrowth(quarterlyStatements: QuarterlyStatement[], annualStatements: AnnualStatement[]) {
+    const { compute, markUnavailable, unavailable } = createMetricTracker();
+    const quarters = _(quarterlyStatements).sortBy(s => s.date.toMillis()).uniqBy(s => s.date.toISODate()).value();
+    const years = _(annualStatements).sortBy(s => s.date.toMillis()).uniqBy(s => s.date.toISODate()).value();
+
+    const quarterRows = _.reverse(quarters.slice())
+        .map(quarter => ({ quarter, yearAgo: findAnniversary(quarters, quarter, 1) }))
+        .filter((row): row is { quarter: QuarterlyStatement; yearAgo: QuarterlyStatement } => row.yearAgo !== undefined)
+        .map(({ quarter, yearAgo }) => ({
+            date: quarter.date,
+            ..._.fromPairs(metrics.map(metric => {
+                const [previous, current] = [metricValues[metric](yearAgo), metricValues[metric](quarter)];
+                return [metric, previous !== undefined && current !== undefined ? growthRate(previous, current) : null];
+            })) as Record<GrowthMetric, number | null>
+        }));
+
+    const lastEight = quarters.slice(-8);
+    const hasTwoTrailingYears = lastEight.length === 8 && isContiguousQuarters(lastEight);
+    const latestYear = years.at(-1);
+
+    const series = _.fromPairs(metrics.map(metric => {
+        const ttm = hasTwoTrailingYears
+            ? { previous: trailingValue(lastEight.slice(0, 4), metric), current: trailingValue(lastEight.slice(4), metric) }
+            : null;
+        const ttmGrowth = ttm
+            ? compute(`${metric}.ttm`, ttm, v => growthRate(v.previous, v.current))
+            : markUnavailable(`${metric}.ttm`, "needs eight contiguous quarters");
+
+        const cagr = (span: number) => {
+            const start = latestYear && findAnniversary(years, latestYear, span);
+            if (!latestYear || !start) {
+                return markUnavailable(`${metric}.cagr${span}y`, `needs fiscal years ${span} years apart`);
+            }
+            return compute(`${metric}.cagr${span}y`,
+                { start: metricValues[metric](start), end: metricValues[metric](latestYear) },
+                v => compoundGrowth(v.start, v.end, span));
+        };
+
+        const [latest, previous] = [quarterRows[0]?.[metric] ?? null, quarterRows[1]?.[metric] ?? null];
+        const latestQuarter = quarters.at(-1);
+        const yearAgo = latestQuarter && findAnniversary(quarters, latestQuarter, 1);
+        const comparison = ttm?.previous !== undefined && ttm.current !== undefined
+            ? [ttm.previous, ttm.current]
+            : yearAgo && latestQuarter ? [metricValues[metric](yearAgo), metricValues[metric](latestQuarter)] : [];
+
+        return [metric, {
+            latestQuarterYoY: latest,
+            ttm: ttmGrowth,
+            cagr3y: cagr(3),
+            cagr5y: cagr(5),
+            acceleration: latest !== null && previous !== null ? latest - previous : null,
+            signChange: comparison[0] !== undefined && comparison[1] !== undefined ? signChange(comparison[0], comparison[1]) : null
+        }];
+    })) as Record<GrowthMetric, {
+        latestQuarterYoY: number | null;
+        ttm: number | null;
+        cagr3y: number | null;
+        cagr5y: number | null;
+        acceleration: number | null;
+        signChange: SignChange;
+    }>;
+
+    return {
+        ...series,
+        quarters: _.fromPairs(quarterRows.map((row, i) => [`q${i}`, row])),
+        unavailable
+    };
+}
@@ -0,0 +1,132 @@
+import _ from "lodash";
+import type { AnnualStatement, QuarterlyStatement } from "../api/types";
+import { createMetricTracker } from "./metric";
+import { isContiguousQuarters } from "./dataQuality";
+import { balanceSheetInputs, leasesOutsideDebt, sumAll } from "./valuation";
+
+interface HealthInput {
+    annualStatements: AnnualStatement[];
+    quarterlyStatements: QuarterlyStatement[];
+    marketCap: number | undefined;
+    ttm: { ebitda?: number; ebit?: number; totalRevenue?: number } | null;
+}
+
+const longTermDebt = (s: AnnualStatement) => s.longTermDebt ?? s.longTermDebtAndCapitalLeaseObligation;
+
+/**
+ * Liquidity, leverage and quality scores. Balance-sheet ratios use the most recent statement, quarterly or annual;
+ * flow items use the TTM window; the Piotroski F-score compares the last two fiscal years.
+ * Metrics that cannot be computed are null and listed in `unavailable` with the reason.
+ */
+export function calculateFinancialHealth({ annualStatements, quarterlyStatements, marketCap, ttm }: HealthInput) {
+    const { compute, markUnavailable, unavailable } = createMetricTracker();
+
+    const balance = _.maxBy([...quarterlyStatements, ...annualStatements], s => s.date.toMillis());
+    const lastQuarters = _(quarterlyStatements).sortBy(s => s.date).takeRight(4).value();
+    const interestWindowIssue = lastQuarters.length < 4 ? "needs four quarterly statements"
+        : !isContiguousQuarters(lastQuarters) ? "last four quarters are not contiguous"
+        : null;
+    const debt = balance ? balanceSheetInputs(balance) : undefined;
+
+    const currentRatio = compute("currentRatio",
+        { currentAssets: balance?.currentAssets, currentLiabilities: balance?.currentLiabilities },
+        v => v.currentAssets / v.currentLiabilities);
+    const quickRatio = compute("quickRatio",
+        { currentAssets: balance?.currentAssets, inventory: balance?.inventory, currentLiabilities: balance?.currentLiabilities },
+        v => (v.currentAssets - v.inventory) / v.currentLiabilities);
+    const debtToEquity = compute("debtToEquity",
+        { totalDebt: balance?.totalDebt, stockholdersEquity: balance?.stockholdersEquity },
+        v => v.stockholdersEquity > 0 ? v.totalDebt / v.stockholdersEquity : null);
+    const netDebtToEbitda = compute("netDebtToEbitda",
+        { totalDebt: debt?.totalDebt, totalCash: debt?.totalCash, ebitda: ttm?.ebitda },
+        v => v.ebitda > 0 ? (v.totalDebt + leasesOutsideDebt(debt!) - v.totalCash) / v.ebitda : null);
+    const interestCoverage = interestWindowIssue
+        ? markUnavailable("interestCoverage", interestWindowIssue)
+        : compute("interestCoverage",
+            { ebit: ttm?.ebit, interestExpense: sumAll(lastQuarters.map(s => s.interestExpense)) },
+            v => v.interestExpense !== 0 ? v.ebit / Math.abs(v.interestExpense) : null);
+
+    const altmanZ = compute("altmanZ",
+        {
+            workingCapital: balance?.workingCapital,
+            retainedEarnings: balance?.retainedEarnings,
+            ebit: ttm?.ebit,
+            marketCap,
+            totalLiabilities: balance?.totalLiabilitiesNetMinorityInterest,
+            totalRevenue: ttm?.totalRevenue,
+            totalAssets: balance?.totalAssets
+        },
+        v => v.totalAssets > 0 && v.totalLiabilities > 0
+            ? 1.2 * v.workingCapital / v.totalAssets
+            + 1.4 * v.retainedEarnings / v.totalAssets
+            + 3.3 * v.ebit / v.totalAssets
+            + 0.6 * v.marketCap / v.totalLiabilities
+            + 1.0 * v.totalRevenue / v.totalAssets
+            : null);
+
+    return {
+        balanceSheetDate: balance?.date ?? null,
+        currentRatio,
+        quickRatio,
+        debtToEquity,
+        netDebtToEbitda,
+        interestCoverage,
+        altmanZ,
+        piotroski: (() => {
+            const [previous, current] = _(annualStatements).sortBy(s => s.date).takeRight(2).value();
+            if (!previous || !current) {
+                markUnavailable("piotroski", "needs two fiscal years of statements");
+                return null;
+            }
+            return calculatePiotroskiScore(current, previous, compute);
+        })(),
+        unavailable
+    };
+}
+
+function calculatePiotroskiScore(
+    current: AnnualStatement,
+    previous: AnnualStatement,
+    compute: ReturnType<typeof createMetricTracker>["compute"]
+) {
+    const signal = <K extends string>(name: string, inputs: Record<K, number | undefined>, test: (v: Record<K, number>) => boolean) =>
+        compute(`piotroski.${name}`, inputs, v => test(v) ? 1 : 0);
+
+    const components = {
+        positiveReturnOnAssets: signal("positiveReturnOnAssets",
+            { netIncome: current.netIncome, totalAssets: current.totalAssets },
+            v => v.netIncome / v.totalAssets > 0),
+        positiveOperatingCashFlow: signal("positiveOperatingCashFlow",
+            { operatingCashFlow: current.operatingCashFlow },
+            v => v.operatingCashFlow > 0),
+        improvingReturnOnAssets: signal("improvingReturnOnAssets",
+            { netIncome: current.netIncome, totalAssets: current.totalAssets, previousNetIncome: previous.netIncome, previousTotalAssets: previous.totalAssets },
+            v => v.netIncome / v.totalAssets > v.previousNetIncome / v.previousTotalAssets),
+        cashFlowAboveNetIncome: signal("cashFlowAboveNetIncome",
+            { operatingCashFlow: current.operatingCashFlow, netIncome: current.netIncome },
+            v => v.operatingCashFlow > v.netIncome),
+        decreasingLeverage: signal("decreasingLeverage",
+            { longTermDebt: longTermDebt(current), totalAssets: current.totalAssets, previousLongTermDebt: longTermDebt(previous), previousTotalAssets: previous.totalAssets },
+            v => v.longTermDebt / v.totalAssets < v.previousLongTermDebt / v.previousTotalAssets),
+        improvingCurrentRatio: signal("improvingCurrentRatio",
+            { currentAssets: current.currentAssets, currentLiabilities: current.currentLiabilities, previousCurrentAssets: previous.currentAssets, previousCurrentLiabilities: previous.currentLiabilities },
+            v => v.currentAssets / v.currentLiabilities > v.previousCurrentAssets / v.previousCurrentLiabilities),
+        noShareDilution: signal("noShareDilution",
+            { shares: current.ordinarySharesNumber, previousShares: previous.ordinarySharesNumber },
+            v => v.shares <= v.previousShares),
+        improvingGrossMargin: signal("improvingGrossMargin",
+            { grossProfit: current.grossProfit, totalRevenue: current.totalRevenue, previousGrossProfit: previous.grossProfit, previousTotalRevenue: previous.totalRevenue },
+            v => v.grossProfit / v.totalRevenue > v.previousGrossProfit / v.previousTotalRevenue),
+        improvingAssetTurnover: signal("improvingAssetTurnover",
+            { totalRevenue: current.totalRevenue, totalAssets: current.totalAssets, previousTotalRevenue: previous.totalRevenue, previousTotalAssets: previous.totalAssets },
+            v => v.totalRevenue / v.totalAssets > v.previousTotalRevenue / v.previousTotalAssets)
+    };
+
+    const available = Object.values(components).filter(c => c !== null);
+    return {
+        fiscalYear: current.date,
+        score: _.sum(available),
+        componentsAvailable: available.length,
+        ...components
+    };
+}
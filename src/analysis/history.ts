@@ -0,0 +1,90 @@
+import _ from "lodash";
+import type { DateTime } from "luxon";
+import type { ChartResultArrayQuote } from "yahoo-finance2/modules/chart";
+import type { AnnualStatement, QuarterlyStatement } from "../api/types";
+import { priceOn } from "../lib/prices";
+import { balanceSheetInputs, calculateTrailingStatistics, calculateValuationMetrics } from "./valuation";
+
+export interface ValuationHistoryRow {
+    date: DateTime;
+    periodType: "TTM" | "12M";
+    close: number;
+    marketCap: number;
+    eps: number;
+    pe: number | null;
+    fcfYield: number | null;
+    fcfYieldAdjusted: number | null;
+    operatingMargin: number | null;
+    profitMargin: number | null;
+    fcfMargin: number | null;
+}
+
+function toRow(periodType: ValuationHistoryRow["periodType"], metrics: ReturnType<typeof calculateValuationMetrics>): ValuationHistoryRow {
+    const margin = (value: number | undefined) => value && metrics.totalRevenue ? value / metrics.totalRevenue : null;
+    return {
+        date: metrics.date,
+        periodType,
+        close: metrics.close,
+        marketCap: metrics.marketCap,
+        eps: metrics.eps,
+        pe: metrics.pe,
+        fcfYield: metrics.fcfYield,
+        fcfYieldAdjusted: metrics.fcfYieldAdjusted,
+        operatingMargin: margin(metrics.operatingIncome),
+        profitMargin: margin(metrics.netIncome),
+        fcfMargin: margin(metrics.freeCashFlow)
+    };
+}
+
+function calculateAnnualStatistics(statement: AnnualStatement, prices: ChartResultArrayQuote[]) {
+    const sharesOutstanding = statement.basicAverageShares ?? statement.ordinarySharesNumber;
+    if (!sharesOutstanding) {
+        return null;
+    }
+    const netIncome = statement.netIncome ?? 0;
+
+    return calculateValuationMetrics({
+        date: statement.date,
+        close: priceOn(statement.date, prices),
+        sharesOutstanding,
+        dilutedSharesOutstanding: statement.dilutedAverageShares || sharesOutstanding,
+        netIncome,
+        freeCashFlow: statement.freeCashFlow ?? 0,
+        stockBasedCompensation: statement.stockBasedCompensation ?? 0,
+        eps: statement.basicEPS ?? netIncome / sharesOutstanding,
+        ...balanceSheetInputs(statement),
+        totalRevenue: statement.totalRevenue,
+        operatingIncome: statement.operatingIncome,
+        ebitda: statement.EBITDA ?? statement.normalizedEBITDA,
+        ebit: statement.EBIT
+    });
+}
+
+/**
+ * Valuation at every quarter end that has four quarters of history behind it, and at every fiscal year end.
+ * Windows without a share count, or whose quarters are not contiguous, are left out rather than failing the whole series.
+ */
+export function calculateValuationHistory(quarterlyStatements: QuarterlyStatement[], annualStatements: AnnualStatement[], prices: ChartResultArrayQuote[]) {
+    const quarters = _.sortBy(quarterlyStatements, s => s.date);
+
+    const quarterly = _.range(3, quarters.length)
+        .map(end => {
+            const window = quarters.slice(end - 3, end + 1);
+            const lastStatement = window[window.length - 1]!;
+            if (!(lastStatement.basicAverageShares ?? lastStatement.ordinarySharesNumber)) {
+                return null;
+            }
+            return calculateTrailingStatistics(window, prices);
+        })
+        .filter(metrics => metrics !== null)
+        .map(metrics => toRow("TTM", metrics));
+
+    const annual = _(annualStatements)
+        .sortBy(s => s.date)
+        .map(statement => calculateAnnualStatistics(statement, prices))
+        .filter(metrics => metrics !== null)
+        .map(metrics => toRow("12M", metrics!))
+        .value();
+
+    return { quarterly, annual };
+}
@@ -0,0 +1,32 @@
+/**
+ * Computes named metrics while recording, for each one that comes out null, which inputs were missing
+ * or why the formula was not meaningful. `unavailable` flattens to one CSV key per metric.
+ */
+export function createMetricTracker() {
+    const unavailable: Record<string, string> = {};
+
+    function compute<K extends string>(
+        name: string,
+        inputs: Record<K, number | null | undefined>,
+        formula: (values: Record<K, number>) => number | null
+    ): number | null {
+        const missing = (Object.keys(inputs) as K[]).filter(key => inputs[key] === undefined || inputs[key] === null);
+        if (missing.length) {
+            unavailable[name] = `missing ${missing.join(", ")}`;
+            return null;
+        }
+        const value = formula(inputs as Record<K, number>);
+        if (value === null || !Number.isFinite(value)) {
+            unavailable[name] = "not meaningful for these inputs";
+            return null;
+        }
+        return value;
+    }
+
+    function markUnavailable(name: string, reason: string) {
+        unavailable[name] = reason;
+        return null;
+    }
+
+    return { compute, markUnavailable, unavailable };
+}
@@ -0,0 +1,96 @@
+import _ from "lodash";
+import { DateTime } from "luxon";
+import type { QuoteSummaryResult, Transaction } from "yahoo-finance2/modules/quoteSummary";
+import type { FxSeries } from "./currency";
+
+type OwnershipSummary = Pick<QuoteSummaryResult,
+    "majorHoldersBreakdown" | "insiderTransactions" | "netSharePurchaseActivity" | "institutionOwnership" | "fundOwnership">;
+
+/** Transactions by these relations count as officer transactions; plain directors and beneficial owners do not. */
+const officerRelation = /officer|chief|president|chairman|treasurer|secretary|general counsel/i;
+
+const notableTransactions = 5;
+const topHolders = 5;
+
+/** Yahoo only describes the transaction in free text, so open-market trades are told apart by its wording. */
+function transactionType(transaction: Transaction) {
+    const text = transaction.transactionText ?? "";
+    if (/\bsale\b|\bsold\b/i.test(text)) {
+        return "sell";
+    }
+    if (/\bpurchase\b|\bbought\b/i.test(text)) {
+        return "buy";
+    }
+    return "other";
+}
+
+function netActivity(transactions: (Transaction & { type: string; amount: number })[], since: DateTime) {
+    const trades = transactions.filter(t => t.type !== "other" && DateTime.fromJSDate(t.startDate) >= since);
+    const signed = (t: { type: string }) => t.type === "buy" ? 1 : -1;
+    return {
+        buys: trades.filter(t => t.type === "buy").length,
+        sells: trades.filter(t => t.type === "sell").length,
+        netShares: _.sumBy(trades, t => signed(t) * t.shares),
+        netValue: _.sumBy(trades, t => signed(t) * t.amount)
+    };
+}
+
+function holders(ownership: OwnershipSummary["institutionOwnership"], fx: FxSeries | null) {
+    const list = _(ownership?.ownershipList ?? [])
+        .sortBy(h => -h.pctHeld)
+        .take(topHolders)
+        .value();
+    return {
+        increased: list.filter(h => (h.pctChange ?? 0) > 0).length,
+        decreased: list.filter(h => (h.pctChange ?? 0) < 0).length,
+        ..._.fromPairs(list.map((h, i) => [`h${i + 1}`, {
+            organization: h.organization,
+            reportDate: h.reportDate,
+            pctHeld: h.pctHeld,
+            position: h.position,
+            value: fx ? h.value * fx.closingRate(DateTime.fromJSDate(h.reportDate)) : h.value,
+            pctChange: h.pctChange ?? null
+        }]))
+    };
+}
+
+/**
+ * Who owns the company and what insiders have been doing with their shares. Net insider activity counts only
+ * open-market purchases and sales, so option exercises, awards and gifts do not show up as buying or selling.
+ * Values are in the reporting currency, converted at the rate of the transaction or report date.
+ */
+export function calculateOwnership(summary: OwnershipSummary, fx: FxSeries | null, asOf = DateTime.now()) {
+    const transactions = (summary.insiderTransactions?.transactions ?? []).map(t => ({
+        ...t,
+        type: transactionType(t),
+        amount: (t.value ?? 0) * (fx ? fx.closingRate(DateTime.fromJSDate(t.startDate)) : 1)
+    }));
+
+    const officerTrades = _(transactions)
+        .filter(t => t.type !== "other" && officerRelation.test(t.filerRelation) && DateTime.fromJSDate(t.startDate) >= asOf.minus({ months: 12 }))
+        .sortBy(t => -t.amount)
+        .take(notableTransactions)
+        .sortBy(t => -t.startDate.getTime())
+        .value();
+
+    const purchaseActivity = summary.netSharePurchaseActivity;
+    return {
+        insidersPercentHeld: summary.majorHoldersBreakdown?.insidersPercentHeld ?? null,
+        institutionsPercentHeld: summary.majorHoldersBreakdown?.institutionsPercentHeld ?? null,
+        institutionsFloatPercentHeld: summary.majorHoldersBreakdown?.institutionsFloatPercentHeld ?? null,
+        institutionsCount: summary.majorHoldersBreakdown?.institutionsCount ?? null,
+        insiderActivity6m: netActivity(transactions, asOf.minus({ months: 6 })),
+        insiderActivity12m: netActivity(transactions, asOf.minus({ months: 12 })),
+        insiderNetPercentOfHoldings: purchaseActivity?.netPercentInsiderShares ?? null,
+        officerTransactions: _.fromPairs(officerTrades.map((t, i) => [`t${i + 1}`, {
+            date: t.startDate,
+            name: t.filerName,
+            relation: t.filerRelation,
+            type: t.type,
+            shares: t.shares,
+            value: t.amount
+        }])),
+        topInstitutions: holders(summary.institutionOwnership, fx),
+        topFunds: holders(summary.fundOwnership, fx)
+    };
+}
@@ -0,0 +1,90 @@
+import _ from "lodash";
+
+/** Metrics ranked against peers, by their path in the result object. */
+const peerMetrics = {
+    pe: "thisPeriod.pe",
+    fcfYield: "valuation.fcfYield",
+    operatingMargin: "marginsAndGrowth.operatingMargin",
+    profitMargin: "marginsAndGrowth.profitMargin",
+    revenueGrowth: "growth.revenue.ttm",
+    earningsGrowth: "growth.eps.ttm",
+} as const;
+
+type PeerMetric = keyof typeof peerMetrics;
+
+interface PeerInput {
+    symbol: string;
+    info: { sector?: string | null; industry?: string | null };
+}
+
+function metricValue(result: PeerInput, metric: PeerMetric): number | null {
+    const value: unknown = _.get(result, peerMetrics[metric]);
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+        return null;
+    }
+    // A negative PE is not "cheap", so loss makers are left out of the PE ranking.
+    return metric === "pe" && value <= 0 ? null : value;
+}
+
+function median(values: number[]) {
+    if (values.length === 0) {
+        return null;
+    }
+    const sorted = _.sortBy(values);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle]! : (sorted[middle - 1]! + sorted[middle]!) / 2;
+}
+
+/** Share of the other peers below `value`, counting ties as half: 0 is the lowest in the group, 1 the highest. */
+function percentileRank(value: number, values: number[]) {
+    if (values.length < 2) {
+        return null;
+    }
+    const below = values.filter(v => v < value).length;
+    const equal = values.filter(v => v === value).length;
+    return (below + (equal - 1) / 2) / (values.length - 1);
+}
+
+function groupStatistics(results: PeerInput[], group: "sector" | "industry") {
+    return _(results)
+        .filter(r => !!r.info[group])
+        .groupBy(r => r.info[group])
+        .mapValues(members => _.mapValues(peerMetrics, (_path, metric) =>
+            members.map(m => metricValue(m, metric as PeerMetric)).filter((v): v is number => v !== null)))
+        .value();
+}
+
+/**
+ * Ranks each symbol within its sector and industry for PE, FCF yield, margins and growth, and adds the group
+ * medians for context. Percentiles run from 0 (lowest in the group) to 1 (highest), so a low PE percentile with a
+ * high FCF yield percentile reads as cheap compared to peers. Only symbols in the same batch count as peers.
+ */
+export function calculateRelativeValuation<T extends PeerInput>(results: T[]) {
+    const sectors = groupStatistics(results, "sector");
+    const industries = groupStatistics(results, "industry");
+
+    const relativeTo = (result: T, group: "sector" | "industry", statistics: typeof sectors) => {
+        const name = result.info[group];
+        const values = name ? statistics[name] : undefined;
+        if (!name || !values) {
+            return null;
+        }
+        return {
+            name,
+            peers: results.filter(r => r.info[group] === name).length,
+            percentile: _.mapValues(peerMetrics, (_path, metric) => {
+                const value = metricValue(result, metric as PeerMetric);
+                return value === null ? null : percentileRank(value, values[metric as PeerMetric]);
+            }),
+            median: _.mapValues(values, median)
+        };
+    };
+
+    return results.map(result => ({
+        ...result,
+        relative: {
+            sector: relativeTo(result, "sector", sectors),
+            industry: relativeTo(result, "industry", industries)
+        }
+    }));
+}
@@ -0,0 +1,139 @@
+import _ from "lodash";
+
+export interface Position {
+    symbol: string;
+    shares: number;
+    /** Total paid for the position, in the base currency, or null when unknown. */
+    costBasis: number | null;
+    account: string;
+}
+
+type Weighted = { value: number | null; coverage: number | null };
+
+/** The parts of a `fetchFromYahooFinance` result the portfolio is built from, in the base currency. */
+export interface PositionResult {
+    symbol: string;
+    info: { name?: string | null; quoteType: string; currency?: string | null; statementCurrency?: string | null; sector: string | null };
+    keyStatistics: { price: number };
+    thisPeriod: { pe: number | null } | null;
+    valuation: { fcfYield: number | null };
+    growth: { revenue: { ttm: number | null }; eps: { ttm: number | null } } | null;
+    priceRisk: { beta: number | null } | null;
+    fund: { lookThrough: { earningsYield: Weighted; fcfYield: Weighted; revenueGrowth: Weighted; earningsGrowth: Weighted } | null } | null;
+}
+
+const exposureDimensions = {
+    currency: (r: PositionResult) => r.info.currency,
+    statementCurrency: (r: PositionResult) => r.info.statementCurrency,
+    sector: (r: PositionResult) => r.info.sector,
+    quoteType: (r: PositionResult) => r.info.quoteType,
+} as const;
+
+const finite = (value: number | null | undefined) => typeof value === "number" && Number.isFinite(value) ? value : null;
+
+/**
+ * Fundamentals of one holding. Equities use their own figures; funds fall back to the look-through figures of their
+ * top holdings. Earnings yield is the inverse of PE, so loss makers count with a negative yield.
+ */
+function holdingFundamentals(result: PositionResult) {
+    const lookThrough = result.fund?.lookThrough;
+    return {
+        earningsYield: result.thisPeriod?.pe ? 1 / result.thisPeriod.pe : finite(lookThrough?.earningsYield.value),
+        fcfYield: finite(result.valuation.fcfYield) ?? finite(lookThrough?.fcfYield.value),
+        revenueGrowth: finite(result.growth?.revenue.ttm) ?? finite(lookThrough?.revenueGrowth.value),
+        earningsGrowth: finite(result.growth?.eps.ttm) ?? finite(lookThrough?.earningsGrowth.value),
+        beta: finite(result.priceRisk?.beta)
+    };
+}
+
+/**
+ * Values each position at the latest price in the base currency and aggregates the book. Positions in the same
+ * symbol across accounts share one analysis. Portfolio metrics are averages weighted by market value over the
+ * positions that have the metric, each reported with the share of market value it covers, so a missing figure
+ * neither drags the average to zero nor goes unnoticed. PE is the inverse of the weighted earnings yield.
+ * Exposures break market value down by listing currency, statement currency, sector, quote type and account.
+ * Positions whose symbol could not be analysed are listed in `unvalued` and left out of every total.
+ */
+export function calculatePortfolio(positions: Position[], results: Map<string, PositionResult>) {
+    const valued = positions
+        .filter(p => results.has(p.symbol))
+        .map(position => {
+            const result = results.get(position.symbol)!;
+            const marketValue = position.shares * result.keyStatistics.price;
+            return {
+                position,
+                result,
+                marketValue,
+                unrealisedPnl: position.costBasis !== null ? marketValue - position.costBasis : null,
+                fundamentals: holdingFundamentals(result)
+            };
+        });
+    const totalValue = _.sumBy(valued, v => v.marketValue);
+    const weightOf = (marketValue: number) => totalValue !== 0 ? marketValue / totalValue : null;
+
+    const weighted = (metric: keyof ReturnType<typeof holdingFundamentals>): Weighted => {
+        const covered = valued.filter(v => v.fundamentals[metric] !== null);
+        const coveredValue = _.sumBy(covered, v => v.marketValue);
+        return {
+            value: coveredValue !== 0 ? _.sumBy(covered, v => v.marketValue * v.fundamentals[metric]!) / coveredValue : null,
+            coverage: weightOf(coveredValue)
+        };
+    };
+
+    const withCost = valued.filter(v => v.position.costBasis !== null);
+    const costBasis = _.sumBy(withCost, v => v.position.costBasis!);
+    const unrealisedPnl = _.sumBy(withCost, v => v.unrealisedPnl!);
+    const earningsYield = weighted("earningsYield");
+
+    const exposure = (dimension: string, group: (v: typeof valued[number]) => string | null | undefined) => _(valued)
+        .groupBy(v => group(v) ?? "unknown")
+        .map((members, name) => ({
+            dimension,
+            group: name,
+            positions: members.length,
+            marketValue: _.sumBy(members, m => m.marketValue),
+            weight: weightOf(_.sumBy(members, m => m.marketValue))
+        }))
+        .sortBy(row => -row.marketValue)
+        .value();
+
+    return {
+        summary: {
+            positions: valued.length,
+            marketValue: totalValue,
+            costBasis: withCost.length ? costBasis : null,
+            unrealisedPnl: withCost.length ? unrealisedPnl : null,
+            unrealisedReturn: withCost.length && costBasis !== 0 ? unrealisedPnl / costBasis : null,
+            pe: {
+                value: earningsYield.value && earningsYield.value > 0 ? 1 / earningsYield.value : null,
+                coverage: earningsYield.coverage
+            },
+            earningsYield,
+            fcfYield: weighted("fcfYield"),
+            revenueGrowth: weighted("revenueGrowth"),
+            earningsGrowth: weighted("earningsGrowth"),
+            beta: weighted("beta"),
+            unvalued: positions.filter(p => !results.has(p.symbol)).map(p => `${p.account}:${p.symbol}`).join(", ")
+        },
+        positions: _.sortBy(valued, v => -v.marketValue).map(v => ({
+            account: v.position.account,
+            symbol: v.position.symbol,
+            name: v.result.info.name ?? null,
+            quoteType: v.result.info.quoteType,
+            currency: v.result.info.currency ?? null,
+            sector: v.result.info.sector,
+            shares: v.position.shares,
+            price: v.result.keyStatistics.price,
+            marketValue: v.marketValue,
+            weight: weightOf(v.marketValue),
+            costBasis: v.position.costBasis,
+            unrealisedPnl: v.unrealisedPnl,
+            unrealisedReturn: v.unrealisedPnl !== null && v.position.costBasis ? v.unrealisedPnl / v.position.costBasis : null,
+            ...v.fundamentals
+        })),
+        exposures: [
+            ...Object.entries(exposureDimensions).flatMap(([dimension, group]) => exposure(dimension, v => group(v.result))),
+            ...exposure("account", v => v.position.account)
+        ]
+    };
+}
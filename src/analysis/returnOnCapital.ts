@@ -0,0 +1,127 @@
+import _ from "lodash";
+import type { DateTime } from "luxon";
+import type { AnnualStatement, QuarterlyStatement } from "../api/types";
+import { createMetricTracker } from "./metric";
+import { isContiguousQuarters } from "./dataQuality";
+import { sumAll } from "./valuation";
+
+interface ReturnInputs {
+    periodEnd: DateTime;
+    ebit: number | undefined;
+    taxRate: number | undefined;
+    netIncome: number | undefined;
+    freeCashFlow: number | undefined;
+    averageInvestedCapital: number | undefined;
+    averageEquity: number | undefined;
+    averageAssets: number | undefined;
+    endingInvestedCapital: number | undefined;
+}
+
+const average = (values: (number | undefined)[]) => {
+    const defined = values.filter((v): v is number => v !== undefined && v !== null);
+    return defined.length ? _.mean(defined) : undefined;
+};
+
+const nopat = (inputs: ReturnInputs) =>
+    inputs.ebit !== undefined && inputs.taxRate !== undefined ? inputs.ebit * (1 - inputs.taxRate) : undefined;
+
+/** Inputs for the four quarters ending at `end`, or null when there are fewer or they are not contiguous. */
+function ttmInputs(quarters: QuarterlyStatement[], end: number): ReturnInputs | null {
+    if (end < 3) {
+        return null;
+    }
+    const window = quarters.slice(end - 3, end + 1);
+    if (!isContiguousQuarters(window)) {
+        return null;
+    }
+    const last = window[window.length - 1]!;
+    // Balances from the quarter end a year before the window through its last quarter end.
+    const balances = quarters.slice(Math.max(0, end - 4), end + 1);
+    return {
+        periodEnd: last.date,
+        ebit: sumAll(window.map(s => s.EBIT)),
+        taxRate: last.taxRateForCalcs,
+        netIncome: sumAll(window.map(s => s.netIncome)),
+        freeCashFlow: sumAll(window.map(s => s.freeCashFlow)),
+        averageInvestedCapital: average(balances.map(s => s.investedCapital)),
+        averageEquity: average(balances.map(s => s.stockholdersEquity)),
+        averageAssets: average(balances.map(s => s.totalAssets)),
+        endingInvestedCapital: last.investedCapital
+    };
+}
+
+function annualInputs(current: AnnualStatement, previous: AnnualStatement | undefined): ReturnInputs {
+    const balances = previous ? [previous, current] : [current];
+    return {
+        periodEnd: current.date,
+        ebit: current.EBIT,
+        taxRate: current.taxRateForCalcs,
+        netIncome: current.netIncome,
+        freeCashFlow: current.freeCashFlow,
+        averageInvestedCapital: average(balances.map(s => s.investedCapital)),
+        averageEquity: average(balances.map(s => s.stockholdersEquity)),
+        averageAssets: average(balances.map(s => s.totalAssets)),
+        endingInvestedCapital: current.investedCapital
+    };
+}
+
+/**
+ * ROIC (NOPAT over average invested capital), ROE, ROA, FCF conversion and incremental ROIC for the TTM window
+ * and each fiscal year. Fiscal years are keyed `fy0` for the latest, `fy1` for the one before and so on, so the
+ * flattened keys are the same for every symbol. Averages use the opening and closing balances of each period.
+ */
+export function calculateReturnOnCapital(quarterlyStatements: QuarterlyStatement[], annualStatements: AnnualStatement[]) {
+    const { compute, markUnavailable, unavailable } = createMetricTracker();
+
+    const returns = (name: string, inputs: ReturnInputs, prior: ReturnInputs | null) => ({
+        periodEnd: inputs.periodEnd,
+        roic: compute(`${name}.roic`,
+            { nopat: nopat(inputs), averageInvestedCapital: inputs.averageInvestedCapital },
+            v => v.averageInvestedCapital > 0 ? v.nopat / v.averageInvestedCapital : null),
+        roe: compute(`${name}.roe`,
+            { netIncome: inputs.netIncome, averageEquity: inputs.averageEquity },
+            v => v.averageEquity > 0 ? v.netIncome / v.averageEquity : null),
+        roa: compute(`${name}.roa`,
+            { netIncome: inputs.netIncome, averageAssets: inputs.averageAssets },
+            v => v.averageAssets > 0 ? v.netIncome / v.averageAssets : null),
+        fcfConversion: compute(`${name}.fcfConversion`,
+            { freeCashFlow: inputs.freeCashFlow, netIncome: inputs.netIncome },
+            v => v.netIncome > 0 ? v.freeCashFlow / v.netIncome : null),
+        incrementalRoic: prior
+            ? compute(`${name}.incrementalRoic`,
+                {
+                    nopat: nopat(inputs),
+                    priorNopat: nopat(prior),
+                    investedCapital: inputs.endingInvestedCapital,
+                    priorInvestedCapital: prior.endingInvestedCapital
+                },
+                v => v.investedCapital !== v.priorInvestedCapital
+                    ? (v.nopat - v.priorNopat) / (v.investedCapital - v.priorInvestedCapital)
+                    : null)
+            : markUnavailable(`${name}.incrementalRoic`, "needs the period a year earlier")
+    });
+
+    const quarters = _.sortBy(quarterlyStatements, s => s.date);
+    const lastTtm = ttmInputs(quarters, quarters.length - 1);
+    // The prior window only compares with the last one when no quarter is missing between them either.
+    const priorTtm = isContiguousQuarters(quarters.slice(-8)) ? ttmInputs(quarters, quarters.length - 5) : null;
+    if (!lastTtm) {
+        markUnavailable("ttm", quarters.length < 4 ? "needs four quarterly statements" : "last four quarters are not contiguous");
+    }
+
+    const years = _.sortBy(annualStatements, s => s.date).reverse();
+    const fiscalYears = _.fromPairs(years.map((statement, index) => {
+        const previous = years[index + 1];
+        const beforePrevious = years[index + 2];
+        return [
+            `fy${index}`,
+            returns(`fiscalYears.fy${index}`, annualInputs(statement, previous), previous ? annualInputs(previous, beforePrevious) : null)
+        ];
+    }));
+
+    return {
+        ttm: lastTtm ? returns("ttm", lastTtm, priorTtm) : null,
+        fiscalYears,
+        unavailable
+    };
+}
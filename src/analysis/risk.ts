@@ -0,0 +1,138 @@
+import _ from "lodash";
+import { DateTime, type DurationLike } from "luxon";
+import type { ChartResultArrayQuote } from "yahoo-finance2/modules/chart";
+import { createMetricTracker } from "./metric";
+
+const tradingDaysPerYear = 252;
+
+/** A window counts as covered when the history starts no more than this many days after its start. */
+const coverageToleranceDays = 7;
+
+const returnWindows: Record<string, DurationLike> = {
+    "1M": { months: 1 },
+    "6M": { months: 6 },
+    "1Y": { years: 1 },
+    "3Y": { years: 3 },
+    "5Y": { years: 5 },
+};
+
+interface PricePoint {
+    day: string;
+    date: DateTime;
+    close: number;
+}
+
+/** Daily closes in date order, adjusted for splits and dividends where Yahoo provides an adjusted close. */
+function closes(prices: ChartResultArrayQuote[]): PricePoint[] {
+    return _(prices)
+        .map(p => ({ date: DateTime.fromJSDate(p.date), close: p.adjclose ?? p.close }))
+        .filter((p): p is { date: DateTime; close: number } => typeof p.close === "number" && p.close > 0)
+        .sortBy(p => p.date.toMillis())
+        .map(p => ({ ...p, day: p.date.toFormat("yyyy-MM-dd") }))
+        .value();
+}
+
+function dailyReturns(points: PricePoint[]) {
+    return points.slice(1).map((p, i) => p.close / points[i]!.close - 1);
+}
+
+function standardDeviation(values: number[]) {
+    if (values.length < 2) {
+        return null;
+    }
+    const mean = _.mean(values);
+    return Math.sqrt(_.sumBy(values, v => (v - mean) ** 2) / (values.length - 1));
+}
+
+function drawdowns(points: PricePoint[]) {
+    let peak = points[0]!.close;
+    let max = 0;
+    for (const point of points) {
+        peak = Math.max(peak, point.close);
+        max = Math.min(max, point.close / peak - 1);
+    }
+    return { maxDrawdown: max, currentDrawdown: points[points.length - 1]!.close / peak - 1 };
+}
+
+/** Beta and correlation of daily returns on the days both series traded. */
+function benchmarkStatistics(points: PricePoint[], benchmark: PricePoint[]) {
+    const benchmarkCloses = new Map(benchmark.map(p => [p.day, p.close]));
+    const common = points.filter(p => benchmarkCloses.has(p.day));
+    const pairs = common.slice(1).map((p, i) => [
+        p.close / common[i]!.close - 1,
+        benchmarkCloses.get(p.day)! / benchmarkCloses.get(common[i]!.day)! - 1
+    ] as const);
+    if (pairs.length < 2) {
+        return { beta: null, correlation: null, observations: pairs.length };
+    }
+
+    const meanX = _.meanBy(pairs, p => p[0]);
+    const meanY = _.meanBy(pairs, p => p[1]);
+    const covariance = _.sumBy(pairs, ([x, y]) => (x - meanX) * (y - meanY));
+    const varianceX = _.sumBy(pairs, ([x]) => (x - meanX) ** 2);
+    const varianceY = _.sumBy(pairs, ([, y]) => (y - meanY) ** 2);
+    return {
+        beta: varianceY > 0 ? covariance / varianceY : null,
+        correlation: varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : null,
+        observations: pairs.length
+    };
+}
+
+/**
+ * Returns and risk from the daily price history. Trailing returns are total returns on adjusted closes, and are
+ * null when the history does not reach back to the start of the window. Volatility, drawdowns, the Sharpe-style
+ * ratio, beta and correlation all cover the whole price window; the Sharpe-style ratio is the annualised return
+ * over that window less `riskFreeRate`, divided by the annualised volatility.
+ */
+export function calculatePriceRisk(
+    prices: ChartResultArrayQuote[],
+    benchmark: { symbol: string; prices: ChartResultArrayQuote[] | null },
+    riskFreeRate: number
+) {
+    const { compute, markUnavailable, unavailable } = createMetricTracker();
+    const points = closes(prices);
+    if (points.length < 2) {
+        return null;
+    }
+    const first = points[0]!;
+    const last = points[points.length - 1]!;
+
+    const returns = _.mapValues(returnWindows, (window, name) => {
+        const start = last.date.minus(window);
+        if (first.date > start.plus({ days: coverageToleranceDays })) {
+            return markUnavailable(`return${name}`, "price history too short");
+        }
+        const base = _.findLast(points, p => p.date <= start.endOf("day")) ?? first;
+        return last.close / base.close - 1;
+    });
+
+    const years = last.date.diff(first.date, "years").years;
+    const annualisedReturn = compute("annualisedReturn", { first: first.close, last: last.close, years },
+        v => v.years > 0 ? Math.pow(v.last / v.first, 1 / v.years) - 1 : null);
+    const dailyVolatility = standardDeviation(dailyReturns(points));
+    const volatility = compute("volatility", { dailyVolatility }, v => v.dailyVolatility * Math.sqrt(tradingDaysPerYear));
+    const sharpeRatio = compute("sharpeRatio", { annualisedReturn, volatility },
+        v => v.volatility > 0 ? (v.annualisedReturn - riskFreeRate) / v.volatility : null);
+
+    const benchmarkPoints = benchmark.prices ? closes(benchmark.prices) : [];
+    const { beta, correlation, observations } = benchmarkPoints.length
+        ? benchmarkStatistics(points, benchmarkPoints)
+        : { beta: null, correlation: null, observations: 0 };
+    if (beta === null) {
+        markUnavailable("beta", benchmark.prices ? "too few days in common with the benchmark" : "benchmark prices unavailable");
+    }
+
+    return {
+        asOf: last.date,
+        returns,
+        annualisedReturn,
+        volatility,
+        sharpeRatio,
+        ...drawdowns(points),
+        benchmark: benchmark.symbol,
+        beta,
+        correlation,
+        benchmarkObservations: observations,
+        unavailable
+    };
+}
@@ -0,0 +1,176 @@
+import _ from "lodash";
+import type { DateTime } from "luxon";
+import type { ChartResultArrayQuote } from "yahoo-finance2/modules/chart";
+import type { PeriodType, QuarterlyStatement, StatementPayload } from "../api/types";
+import { priceOn } from "../lib/prices";
+import { isContiguousQuarters } from "./dataQuality";
+
+export interface StatisticsInput {
+    date: DateTime;
+    close: number;
+    sharesOutstanding: number;
+    dilutedSharesOutstanding: number;
+    netIncome: number;
+    freeCashFlow: number;
+    stockBasedCompensation: number;
+    eps: number;
+    totalCash: number | undefined;
+    totalDebt: number | undefined;
+    capitalLeaseObligations: number | undefined;
+    leasesInTotalDebt: boolean;
+    minorityInterest: number | undefined;
+    totalRevenue: number | undefined;
+    operatingIncome: number | undefined;
+    ebitda: number | undefined;
+    ebit: number | undefined;
+}
+
+/**
+ * Balance-sheet inputs for enterprise value, taken from the latest statement of a window.
+ * Yahoo reports `totalDebt` including capital leases whenever it splits debt into the
+ * "DebtAndCapitalLeaseObligation" lines, so leases are only added on top when those lines are absent.
+ */
+export function balanceSheetInputs(statement: StatementPayload<PeriodType>) {
+    return {
+        totalCash: statement.cashCashEquivalentsAndShortTermInvestments || statement.cashAndCashEquivalents,
+        totalDebt: statement.totalDebt,
+        capitalLeaseObligations: statement.capitalLeaseObligations,
+        leasesInTotalDebt: statement.currentDebtAndCapitalLeaseObligation !== undefined
+            || statement.longTermDebtAndCapitalLeaseObligation !== undefined,
+        minorityInterest: statement.minorityInterest
+    };
+}
+
+/** Sum of a window of flows, or undefined when any period lacks the value, so a partial window is never summed. */
+export function sumAll(values: (number | undefined)[]) {
+    return values.every(v => v !== undefined && v !== null) ? _.sum(values) : undefined;
+}
+
+type BalanceSheetInputs = Pick<StatisticsInput, "totalCash" | "totalDebt" | "capitalLeaseObligations" | "leasesInTotalDebt" | "minorityInterest">;
+
+/** Capital leases to add on top of `totalDebt`, which already includes them when Yahoo splits out the lease lines. */
+export function leasesOutsideDebt(balance: Pick<BalanceSheetInputs, "capitalLeaseObligations" | "leasesInTotalDebt">) {
+    return balance.leasesInTotalDebt ? 0 : balance.capitalLeaseObligations ?? 0;
+}
+
+/**
+ * Debt plus leases not already in it, less cash. A balance sheet that reports only one of debt and cash has none of
+ * the other, but one that reports neither (such as Yahoo's TTM statement) has no net debt at all, so it is null.
+ */
+export function calculateNetDebt(balance: Omit<BalanceSheetInputs, "minorityInterest">) {
+    if (balance.totalDebt === undefined && balance.totalCash === undefined) {
+        return null;
+    }
+    return (balance.totalDebt ?? 0) + leasesOutsideDebt(balance) - (balance.totalCash ?? 0);
+}
+
+export function calculateEnterpriseValue(marketCap: number, balance: BalanceSheetInputs) {
+    const netDebt = calculateNetDebt(balance);
+    return {
+        netDebt,
+        enterpriseValue: netDebt !== null ? marketCap + netDebt + (balance.minorityInterest ?? 0) : null
+    };
+}
+
+export function calculateEnterpriseMultiples(
+    enterpriseValue: number | null,
+    flows: { ebitda?: number; ebit?: number; totalRevenue?: number; freeCashFlow?: number }
+) {
+    const multiple = (denominator: number | undefined) => enterpriseValue !== null && denominator && denominator > 0 ? enterpriseValue / denominator : null;
+    return {
+        evToEbitda: multiple(flows.ebitda),
+        evToEbit: multiple(flows.ebit),
+        evToSales: multiple(flows.totalRevenue),
+        evToFcf: multiple(flows.freeCashFlow)
+    };
+}
+
+export function calculateValuationMetrics(input: StatisticsInput) {
+    const {
+        close, sharesOutstanding, dilutedSharesOutstanding, netIncome, freeCashFlow,
+        stockBasedCompensation, eps, date, totalCash, totalDebt, totalRevenue, operatingIncome, ebitda, ebit
+    } = input;
+
+    const marketCap = close * sharesOutstanding;
+    const dilutedMarketCap = close * dilutedSharesOutstanding;
+    const { netDebt, enterpriseValue } = calculateEnterpriseValue(marketCap, input);
+
+    return {
+        date,
+        close,
+        sharesOutstanding,
+        dilutedSharesOutstanding,
+        marketCap,
+        dilutedMarketCap,
+        netIncome,
+        freeCashFlow,
+        stockBasedCompensation,
+        eps,
+        pe: eps ? close / eps : null,
+        fcfYield: freeCashFlow ? freeCashFlow / marketCap : null,
+        fcfYieldAdjusted: (freeCashFlow && stockBasedCompensation)
+            ? (freeCashFlow - stockBasedCompensation) / dilutedMarketCap
+            : null,
+        fcfPerShare: freeCashFlow ? freeCashFlow / sharesOutstanding : null,
+        fcfPerShareAdjusted: (freeCashFlow && stockBasedCompensation)
+            ? (freeCashFlow - stockBasedCompensation) / dilutedSharesOutstanding
+            : null,
+        totalCash,
+        totalDebt,
+        capitalLeaseObligations: input.capitalLeaseObligations,
+        leasesInTotalDebt: input.leasesInTotalDebt,
+        minorityInterest: input.minorityInterest,
+        totalRevenue,
+        operatingIncome,
+        ebitda,
+        ebit,
+        netDebt,
+        enterpriseValue,
+        ...calculateEnterpriseMultiples(enterpriseValue, { ebitda, ebit, totalRevenue, freeCashFlow })
+    };
+}
+
+/**
+ * Trailing figures from the last four quarters. Returns null rather than summing a partial year when the quarters
+ * are not contiguous, when one of them lacks net income or free cash flow, or when there is no share count, so
+ * that callers can fall back to Yahoo's own TTM statement.
+ */
+export function calculateTrailingStatistics(allStatements: QuarterlyStatement[], prices: ChartResultArrayQuote[]) {
+    const statements = _(allStatements).sortBy(s => s.date).uniqBy(s => s.date.toISODate()).takeRight(4).value();
+    if (statements.length < 4 || !isContiguousQuarters(statements)) {
+        return null;
+    }
+    if (statements.some(s => s.netIncome === undefined || s.freeCashFlow === undefined)) {
+        return null;
+    }
+
+    const lastStatement = statements[statements.length - 1]!;
+    const sharesOutstanding = lastStatement.basicAverageShares ?? lastStatement.ordinarySharesNumber;
+    if (!sharesOutstanding) {
+        return null;
+    }
+    const netIncome = _(statements).map(statement => statement.netIncome).sum();
+    const freeCashFlow = _(statements).map(statement => statement.freeCashFlow).sum();
+    const stockBasedCompensation = _(statements).map(statement => statement.stockBasedCompensation).sum();
+    const totalRevenue = _(statements).map(statement => statement.totalRevenue).sum();
+    const operatingIncome = _(statements).map(statement => statement.operatingIncome).sum();
+    const eps = _(statements).sumBy(s => (s.netIncome && sharesOutstanding) ? s.netIncome / sharesOutstanding : 0);
+    const date = lastStatement.date;
+    const close = priceOn(date, prices);
+
+    return calculateValuationMetrics({
+        date,
+        close,
+        sharesOutstanding,
+        dilutedSharesOutstanding: lastStatement.dilutedAverageShares || sharesOutstanding,
+        netIncome,
+        freeCashFlow,
+        stockBasedCompensation,
+        eps,
+        ...balanceSheetInputs(lastStatement),
+        totalRevenue,
+        operatingIncome,
+        ebitda: sumAll(statements.map(s => s.EBITDA ?? s.normalizedEBITDA)),
+        ebit: sumAll(statements.map(s => s.EBIT))
+    });
+}
@@ -1,11 +1,26 @@
 import { promises as fs } from "fs";
-import { DateTime } from "luxon";
+import { DateTime, type DurationLike } from "luxon";
 import YahooFinance from "yahoo-finance2";
 import type { FundamentalsTimeSeriesAllResult } from "yahoo-finance2/modules/fundamentalsTimeSeries";
+import type { QuoteSummaryModules } from "yahoo-finance2/modules/quoteSummary";
 import type { AnnualStatement, QuarterlyStatement, TrailingStatement } from "./types";
-import { log, memoize } from "../lib/utils";
+import { cacheKey, readCache, writeCache } from "../lib/cache";
+import { upsertPrices, upsertStatements } from "../lib/store";
+import { log, memoize, reviveDates } from "../lib/utils";
+import { settings } from "../settings";
 
-const yahooFinance = new YahooFinance({ suppressNotices: ["yahooSurvey"], });
+/** The fetchers only call `chart`, `quoteSummary` and `fundamentalsTimeSeries`, so a stub needs only those. */
+export type YahooClient = Pick<InstanceType<typeof YahooFinance>, "chart" | "quoteSummary" | "fundamentalsTimeSeries">;
+
+let yahooFinance = new YahooFinance({ suppressNotices: ["yahooSurvey"], });
+
+/** Replaces the Yahoo Finance client, e.g. with a stub when testing the server or the analysis. */
+export function setYahooClient(client: YahooClient) {
+    // The library types its methods as bound to a full client; a stub only has to answer the three calls made here.
+    yahooFinance = client as typeof yahooFinance;
+    // Charts already fetched in this process came from the previous client.
+    __fetchChart.clear();
+}
 
 let yahooLogSuppressCount = 0;
 let originalConsoleLog: typeof console.log | null = null;
@@ -32,45 +47,133 @@ async function withLibraryLoggingSuppressed<T>(fn: () => Promise<T>): Promise<T>
 	}
 }
 
-function payloadDateToMoment(dateInput: Date | number) {
-    return typeof dateInput === "number" ? DateTime.fromSeconds(dateInput) : DateTime.fromJSDate(dateInput);
+function payloadDateToMoment(dateInput: Date | number | string) {
+    if (typeof dateInput === "number") {
+        return DateTime.fromSeconds(dateInput);
+    }
+    return typeof dateInput === "string" ? DateTime.fromISO(dateInput) : DateTime.fromJSDate(dateInput);
 }
 
+const payloadsDir = () => `${settings.outputDir}/payloads`;
+
 async function saveJsonFile(symbol: string, type: string, data: any) {
-    await fs.mkdir("./output/payloads", { recursive: true });
-    await fs.writeFile(`./output/payloads/${symbol}-${type}.json`, JSON.stringify(data, null, 4));
+    await fs.mkdir(payloadsDir(), { recursive: true });
+    await fs.writeFile(`${payloadsDir()}/${symbol}-${type}.json`, JSON.stringify(data, null, 4));
+}
+
+async function loadJsonFile(symbol: string, type: string) {
+    const filepath = `${payloadsDir()}/${symbol}-${type}.json`;
+    try {
+        return JSON.parse(await fs.readFile(filepath, "utf-8"), reviveDates);
+    } catch (error: any) {
+        if (error?.code === "ENOENT") {
+            throw new Error(`No saved ${type} payload for ${symbol} at ${filepath}`);
+        }
+        throw error;
+    }
 }
 
-const defaultPeriod1 = DateTime.now().minus({ years: 5, months: 1 });
+const cacheTtls: Record<string, DurationLike> = {
+    chart: { hours: 12 },
+    quoteSummary: { hours: 12 },
+    quoteSummaryAllModules: { hours: 12 },
+    fundSummary: { days: 1 },
+    quarterlyStatements: { days: 7 },
+    annualStatements: { days: 30 },
+    trailingStatement: { days: 7 },
+};
+
+/**
+ * Fetch windows reach back from the as-of date but always run to today, so a point-in-time analysis still has the
+ * prices after it (for forward returns). The as-of date is part of the cache key only when there is one.
+ */
+const lookbackFrom = () => settings.asOf ?? DateTime.now();
+
+const asOfParams = () => settings.asOf ? { asOf: settings.asOf.toISODate() } : {};
+
+/**
+ * Fetches a raw payload from Yahoo Finance and saves it, or in replay mode reads the saved copy back
+ * with its dates rehydrated. Outside replay mode fresh payloads are served from the disk cache, keyed by
+ * the endpoint, the symbol and the request parameters that are not relative to today.
+ */
+async function fetchPayload<T>(symbol: string, type: string, params: Record<string, unknown>, fetcher: () => Promise<T>): Promise<T> {
+    if (settings.replay) {
+        return await loadJsonFile(symbol, type) as T;
+    }
+
+    if (settings.useCache || settings.cacheOnly) {
+        const cached = await readCache<T>(cacheKey(type, symbol, params));
+        if (cached && (settings.cacheOnly || (!settings.forceRefresh && cached.entry.expiresAt > DateTime.now()))) {
+            return cached.data;
+        }
+        if (settings.cacheOnly) {
+            throw new Error(`No cached ${type} payload for ${symbol}`);
+        }
+    }
+
+    const data = await withLibraryLoggingSuppressed(fetcher);
+    await saveJsonFile(symbol, type, data);
+    if (settings.useCache) {
+        await writeCache(type, symbol, params, cacheTtls[type] ?? { hours: 12 }, data);
+    }
+    return data;
+}
 
-const __fetchPrices = memoize(async (symbol: string) => withLibraryLoggingSuppressed(async () => {
-    const chart = await yahooFinance.chart(symbol, {
-        period1: defaultPeriod1.toFormat("yyyy-MM-dd"),
+const __fetchChart = memoize(async (symbol: string) => {
+    const lookback = { years: settings.priceLookbackYears, months: 1 };
+    const chart = await fetchPayload(symbol, "chart", { lookback, ...asOfParams() }, () => yahooFinance.chart(symbol, {
+        period1: lookbackFrom().minus(lookback).toFormat("yyyy-MM-dd"),
         period2: DateTime.now().toFormat("yyyy-MM-dd"),
-    });
-    return chart.quotes;
-}));
+    }));
+    upsertPrices(symbol, chart.quotes);
+    return chart;
+}, cacheTtls.chart);
+
+const __fetchPrices = async (symbol: string) => (await __fetchChart(symbol)).quotes;
+
+const __fetchDividends = async (symbol: string) => (await __fetchChart(symbol)).events?.dividends ?? [];
+
+const summaryModules: QuoteSummaryModules[] = [
+    "defaultKeyStatistics",
+    "quoteType",
+    "earnings",
+    "price",
+    "earningsTrend",
+    "earningsHistory",
+    "summaryDetail",
+    "financialData",
+    "assetProfile",
+    "majorHoldersBreakdown",
+    "insiderTransactions",
+    "netSharePurchaseActivity",
+    "institutionOwnership",
+    "fundOwnership",
+];
 
 const __fetchSummary = async (symbol: string) => {
-    const quoteSummary = await withLibraryLoggingSuppressed(() => yahooFinance.quoteSummary(symbol,
+    // The module list is part of the cache key, so adding a module never serves a summary cached without it.
+    const quoteSummary = await fetchPayload(symbol, "quoteSummary", { modules: summaryModules }, () => yahooFinance.quoteSummary(symbol,
         {
-            modules:
-                [
-                    "defaultKeyStatistics",
-                    "quoteType",
-                    "earnings",
-                    "price",
-                    "earningsTrend",
-                    "summaryDetail",
-                    "financialData",
-                ]
+            modules: summaryModules
         }));
-    await saveJsonFile(symbol, "quoteSummary", quoteSummary);
     return quoteSummary;
 };
 
+const fundModules: QuoteSummaryModules[] = [
+    "topHoldings",
+    "fundProfile",
+    "fundPerformance",
+];
+
+const __fetchFundSummary = async (symbol: string) => {
+    return fetchPayload(symbol, "fundSummary", { modules: fundModules }, () => yahooFinance.quoteSummary(symbol,
+        {
+            modules: fundModules
+        }));
+};
+
 const __fetchSummaryWithAllModules = async (symbol: string) => {
-    const quoteSummary = await withLibraryLoggingSuppressed(() => yahooFinance.quoteSummary(symbol,
+    const quoteSummary = await fetchPayload(symbol, "quoteSummaryAllModules", {}, () => yahooFinance.quoteSummary(symbol,
         {
             modules:
                 [
@@ -103,45 +206,47 @@ const __fetchSummaryWithAllModules = async (symbol: string) => {
                     "upgradeDowngradeHistory"
                 ]
         }, { validateResult: false }));
-    await saveJsonFile(symbol, "quoteSummaryAllModules", quoteSummary);
     return quoteSummary;
 };
 
 const __fetchQuarterlyStatements = async (symbol: string) => {
-    const response: FundamentalsTimeSeriesAllResult[] = await withLibraryLoggingSuppressed(() => yahooFinance.fundamentalsTimeSeries(symbol, {
-        period1: DateTime.now().minus({ years: 2 }).toFormat("yyyy-MM-dd"),
+    const response: FundamentalsTimeSeriesAllResult[] = await fetchPayload(symbol, "quarterlyStatements", { lookbackYears: settings.quarterlyLookbackYears, ...asOfParams() }, () => yahooFinance.fundamentalsTimeSeries(symbol, {
+        period1: lookbackFrom().minus({ years: settings.quarterlyLookbackYears }).toFormat("yyyy-MM-dd"),
         type: "quarterly",
         module: "all"
     }, { validateResult: false }));
-    await saveJsonFile(symbol, "quarterlyStatements", response);
-    return response
+    const statements = response
         .filter(item => item.TYPE === "ALL")
         .map(item => ({ ...item, date: payloadDateToMoment(item.date) })) as QuarterlyStatement[];
+    upsertStatements(symbol, statements);
+    return statements;
 };
 
 const __fetchAnnualStatements = async (symbol: string) => {
-    const response: FundamentalsTimeSeriesAllResult[] = await withLibraryLoggingSuppressed(() => yahooFinance.fundamentalsTimeSeries(symbol, {
-        period1: DateTime.now().minus({ years: 5 }).toFormat("yyyy-MM-dd"),
+    const response: FundamentalsTimeSeriesAllResult[] = await fetchPayload(symbol, "annualStatements", { lookbackYears: settings.annualLookbackYears, ...asOfParams() }, () => yahooFinance.fundamentalsTimeSeries(symbol, {
+        period1: lookbackFrom().minus({ years: settings.annualLookbackYears }).toFormat("yyyy-MM-dd"),
         period2: DateTime.now().toFormat("yyyy-MM-dd"),
         type: "annual",
         module: "all"
     }, { validateResult: false }));
-    await saveJsonFile(symbol, "annualStatements", response);
-    return response
+    const statements = response
         .filter(item => item.TYPE === "ALL")
         .map(item => ({ ...item, date: payloadDateToMoment(item.date) })) as AnnualStatement[];
+    upsertStatements(symbol, statements);
+    return statements;
 };
 
 const __fetchTrailingStatement = async (symbol: string) => {
-    const response: FundamentalsTimeSeriesAllResult[] = await withLibraryLoggingSuppressed(() => yahooFinance.fundamentalsTimeSeries(symbol, {
-        period1: DateTime.now().minus({ years: 2 }).toFormat("yyyy-MM-dd"),
+    const response: FundamentalsTimeSeriesAllResult[] = await fetchPayload(symbol, "trailingStatement", { lookbackYears: settings.quarterlyLookbackYears, ...asOfParams() }, () => yahooFinance.fundamentalsTimeSeries(symbol, {
+        period1: lookbackFrom().minus({ years: settings.quarterlyLookbackYears }).toFormat("yyyy-MM-dd"),
         type: "trailing",
         module: "all"
     }, { validateResult: false }));
-    await saveJsonFile(symbol, "trailingStatement", response);
-    return response
+    const statements = response
         .filter(item => item.TYPE === "ALL")
         .map(item => ({ ...item, date: payloadDateToMoment(item.date) })) as unknown as TrailingStatement[];
+    upsertStatements(symbol, statements);
+    return statements;
 };
 
 async function withRetries<T>(fn: () => Promise<T>, symbol: string, methodName: string, retries = 5, delay = 2000): Promise<T> {
@@ -161,10 +266,18 @@ export async function fetchPrices(symbol: string) {
     return withRetries(() => __fetchPrices(symbol), symbol, "fetchPrices");
 }
 
+export async function fetchDividends(symbol: string) {
+    return withRetries(() => __fetchDividends(symbol), symbol, "fetchDividends");
+}
+
 export async function fetchSummary(symbol: string) {
     return withRetries(() => __fetchSummary(symbol), symbol, "fetchSummary");
 }
 
+export async function fetchFundSummary(symbol: string) {
+    return withRetries(() => __fetchFundSummary(symbol), symbol, "fetchFundSummary");
+}
+
 export async function fetchSummaryWithAllModules(symbol: string) {
     return withRetries(() => __fetchSummaryWithAllModules(symbol), symbol, "fetchSummaryWithAllModules");
 }
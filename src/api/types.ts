@@ -54,6 +54,10 @@ export interface StatementPayload<T extends PeriodType> {
     changeInTaxPayable?: number;
     currentDeferredRevenue?: number;
     totalEquityGrossMinorityInterest?: number;
+    minorityInterest?: number;
+    inventory?: number;
+    interestExpense?: number;
+    longTermDebt?: number;
     operatingExpense?: number;
     otherIncomeExpense?: number;
     otherIntangibleAssets?: number;
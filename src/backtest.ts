@@ -0,0 +1,121 @@
+import { promises as fs } from "fs";
+import _ from "lodash";
+import { DateTime, type DurationLike } from "luxon";
+import pLimit from "p-limit";
+import path from "path";
+import { fetchPrices } from "./api/api";
+import { calculateRelativeValuation } from "./analysis/peers";
+import { fetchFromYahooFinance } from "./index";
+import { saveToCsv } from "./lib/csv";
+import { flattenForExport } from "./lib/export";
+import { priceOn } from "./lib/prices";
+import { screen, type Rule } from "./lib/screener";
+import { log } from "./lib/utils";
+
+const horizons: Record<string, DurationLike> = {
+    "3M": { months: 3 },
+    "6M": { months: 6 },
+    "12M": { months: 12 },
+};
+
+/** Calendar quarter ends from `from` to `to`, both included. */
+export function quarterEnds(from: DateTime, to: DateTime) {
+    const dates: DateTime[] = [];
+    for (let date = from.startOf("quarter").endOf("quarter").startOf("day"); date <= to; date = date.plus({ days: 1 }).endOf("quarter").startOf("day")) {
+        if (date >= from.startOf("day")) {
+            dates.push(date);
+        }
+    }
+    return dates;
+}
+
+/** Total return from `date` over `horizon` in the listing currency, or null while the horizon has not ended yet. */
+async function forwardReturns(symbol: string, date: DateTime) {
+    const prices = await fetchPrices(symbol);
+    const latest = DateTime.fromJSDate(_.maxBy(prices, p => p.date)!.date).startOf("day");
+    const start = priceOn(date, prices, true);
+    return _.mapValues(horizons, horizon => {
+        const end = date.plus(horizon);
+        return end <= latest && start ? priceOn(end, prices, true) / start - 1 : null;
+    });
+}
+
+const meanOf = (values: (number | null)[]) => {
+    const defined = values.filter((v): v is number => v !== null);
+    return defined.length ? _.mean(defined) : null;
+};
+
+/**
+ * Runs the screen at each quarter end as it would have run then: every symbol is analysed point-in-time at that
+ * date, ranked against the others, and screened with `rules`. The symbols that pass are held equally weighted and
+ * compared with an equal-weighted portfolio of every symbol analysed at that date, over each forward horizon.
+ * Saves one row per quarter end to `filepath` and one row per symbol and quarter end to `backtest-selections.csv`
+ * next to it. Fetch windows are measured back from `settings.asOf`, so it should be set to the first date.
+ */
+export async function runBacktest(symbols: string[], rules: Rule[], dates: DateTime[], filepath: string, parallelism = 3) {
+    const limit = pLimit(parallelism);
+    const periods: Record<string, unknown>[] = [];
+    const selections: Record<string, unknown>[] = [];
+
+    for (const date of dates) {
+        const day = date.toISODate()!;
+        const analysed = await Promise.all(symbols.map(symbol => limit(() => fetchFromYahooFinance(symbol, { asOf: date }).catch(error => {
+            log(`${symbol} >> ${day} >> skipped: ${error?.message ?? error}`);
+            return null;
+        }))));
+        const results = calculateRelativeValuation(_.compact(analysed));
+        const outcome = screen(results.map(flattenForExport), rules);
+        if (outcome.unknownKeys.length) {
+            log(`${day} >> no symbol has a value for ${outcome.unknownKeys.map(rule => rule.key).join(", ")}`);
+        }
+        const passed = new Set(outcome.passed.map(p => p.symbol));
+
+        const rows = await Promise.all(results.map(async result => ({
+            date: day,
+            symbol: result.symbol,
+            selected: passed.has(result.symbol),
+            returns: await forwardReturns(result.symbol, date)
+        })));
+        selections.push(...rows.map(row => ({
+            date: row.date, symbol: row.symbol, selected: row.selected,
+            ..._.mapKeys(row.returns, (_value, horizon) => `return${horizon}`)
+        })));
+
+        const selected = rows.filter(row => row.selected);
+        const period: Record<string, unknown> = {
+            date: day,
+            universe: rows.length,
+            selected: selected.length,
+            symbols: selected.map(row => row.symbol).sort().join(" ")
+        };
+        for (const horizon of Object.keys(horizons)) {
+            const selectedReturn = meanOf(selected.map(row => row.returns[horizon]!));
+            const universeReturn = meanOf(rows.map(row => row.returns[horizon]!));
+            period[`return${horizon}`] = selectedReturn;
+            period[`universeReturn${horizon}`] = universeReturn;
+            period[`excessReturn${horizon}`] = selectedReturn !== null && universeReturn !== null ? selectedReturn - universeReturn : null;
+        }
+        periods.push(period);
+        log(`${day} >> ${selected.length} of ${rows.length} symbols selected`);
+    }
+
+    const summary = Object.keys(horizons).map(horizon => {
+        const excess = periods.map(p => p[`excessReturn${horizon}`] as number | null).filter((v): v is number => v !== null);
+        return {
+            horizon,
+            periods: excess.length,
+            averageExcessReturn: excess.length ? _.mean(excess) : null,
+            hitRate: excess.length ? excess.filter(v => v > 0).length / excess.length : null
+        };
+    });
+
+    await fs.mkdir(path.dirname(filepath), { recursive: true });
+    await saveToCsv(periods, filepath, ",", [
+        "date", "universe", "selected", "symbols",
+        ...Object.keys(horizons).flatMap(h => [`return${h}`, `universeReturn${h}`, `excessReturn${h}`])
+    ]);
+    await saveToCsv(selections, path.join(path.dirname(filepath), "backtest-selections.csv"), ",", [
+        "date", "symbol", "selected", ...Object.keys(horizons).map(h => `return${h}`)
+    ]);
+    return summary;
+}
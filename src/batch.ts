@@ -0,0 +1,112 @@
+import { promises as fs } from "fs";
+import _ from "lodash";
+import pLimit from "p-limit";
+import path from "path";
+import { calculateDcfSensitivity } from "./analysis/dcf";
+import { calculateRelativeValuation } from "./analysis/peers";
+import { fetchFromYahooFinance } from "./index";
+import { createCheckpointWriter, loadCheckpoint } from "./lib/checkpoint";
+import { saveToCsv } from "./lib/csv";
+import { AnalysisError } from "./lib/errors";
+import { flattenForExport, saveJsonLines, saveWideReport, serializeValue } from "./lib/export";
+import { saveSnapshot } from "./lib/snapshots";
+import { recordRun } from "./lib/store";
+import { log } from "./lib/utils";
+
+export type AnalysisResult = Awaited<ReturnType<typeof fetchFromYahooFinance>>;
+
+interface SymbolError {
+	symbol: string;
+	stage: string;
+	message: string;
+}
+
+export async function saveFlattenedResultsToCsv(results: Record<string, unknown>[], filepath: string) {
+	const flattened = results.map(flattenForExport);
+
+	const symbolKeyValues = _(flattened)
+		.flatMap(item => {
+			return _.map(item, (value, key) => ({
+				symbol: item.symbol as string,
+				key,
+				value
+			}));
+		})
+		.filter(item => {
+			const v = item.value;
+			const withoutValue = v === null || v === undefined || v === "";
+			const isEmptyObject = _.isPlainObject(v) && _.isEmpty(v);
+			return !(withoutValue || isEmptyObject);
+		})
+		.sortBy(item => item.symbol)
+		.value();
+
+	await fs.mkdir(path.dirname(filepath), { recursive: true });
+	await saveToCsv(symbolKeyValues, filepath, ",", ["symbol", "key", "value"]);
+	log(`File with key values available at ${filepath}`);
+}
+
+/** The DCF sensitivity grid of every symbol that has a DCF, one row per symbol, discount rate and starting growth. */
+export async function saveDcfSensitivity(results: AnalysisResult[], filepath: string) {
+	const rows = _(results)
+		.sortBy(r => r.symbol)
+		.flatMap(r => r.dcf ? calculateDcfSensitivity(r.dcf).map(row => ({ symbol: r.symbol, ...row })) : [])
+		.value();
+	await fs.mkdir(path.dirname(filepath), { recursive: true });
+	await saveToCsv(rows, filepath, ",", ["symbol", "discountRate", "startingGrowth", "intrinsicValue", "marginOfSafety"]);
+}
+
+/**
+ * Analyses every symbol in isolation: a failing symbol is recorded in `errors.csv` next to the output file
+ * and the rest of the batch carries on. Each result is appended to a checkpoint file as soon as it is ready,
+ * so an interrupted run resumes with the symbols it has not finished yet. The checkpoint is removed once
+ * the output files have been written: the long key/value file at `filepath`, plus `report.csv` (optionally
+ * limited to `columns`), `results.jsonl` and the DCF sensitivity grid `dcf-sensitivity.csv` next to it. Each
+ * result is ranked against its sector and industry peers in the batch before it is saved, and the run is kept
+ * as a dated snapshot for the diff command.
+ */
+export async function processAndSaveParallel(symbols: string[], filepath: string, parallelism = 2, columns?: string[]) {
+	const limit = pLimit(parallelism);
+	const checkpointPath = `${filepath}.checkpoint.jsonl`;
+	const errorsPath = path.join(path.dirname(filepath), "errors.csv");
+
+	const completed = await loadCheckpoint<AnalysisResult>(checkpointPath);
+	if (completed.size > 0) {
+		log(`Resuming from ${checkpointPath}, ${completed.size} symbols already done`);
+	}
+	const saveCheckpoint = createCheckpointWriter(checkpointPath);
+	const pending = symbols.filter(symbol => !completed.has(symbol));
+	const errors: SymbolError[] = [];
+
+	let counter = completed.size;
+	const processSymbol = async (symbol: string) => {
+		log(`${symbol} >> start`)
+		try {
+			const result = await fetchFromYahooFinance(symbol);
+			await saveCheckpoint(serializeValue(result));
+			completed.set(symbol, result);
+		} catch (error: any) {
+			const stage = error instanceof AnalysisError ? error.stage : "metrics";
+			errors.push({ symbol, stage, message: error?.message ?? String(error) });
+			log(`${symbol} >> failed at ${stage}: ${error?.message}`);
+		}
+		counter++;
+		log(`${symbol} >> done (${counter}/${symbols.length})`)
+	}
+	await Promise.all(pending.map(symbol => limit(() => processSymbol(symbol))));
+
+	const results = calculateRelativeValuation(symbols.filter(symbol => completed.has(symbol)).map(symbol => completed.get(symbol)!));
+	await saveFlattenedResultsToCsv(results, filepath);
+	await saveWideReport(results, path.join(path.dirname(filepath), "report.csv"), columns);
+	await saveJsonLines(results, path.join(path.dirname(filepath), "results.jsonl"));
+	await saveDcfSensitivity(results, path.join(path.dirname(filepath), "dcf-sensitivity.csv"));
+	log(`Snapshot saved to ${await saveSnapshot(results)}`);
+	const runId = recordRun(results.map(flattenForExport));
+	if (runId !== null) {
+		log(`Metrics recorded as run ${runId}`);
+	}
+	await saveToCsv(errors, errorsPath, ",", ["symbol", "stage", "message"]);
+	log(`${errors.length} symbols failed, see ${errorsPath}`);
+	await fs.rm(checkpointPath, { force: true });
+	return results;
+}
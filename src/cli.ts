@@ -0,0 +1,522 @@
+import { promises as fs } from "fs";
+import _ from "lodash";
+import { DateTime } from "luxon";
+import path from "path";
+import { parseArgs } from "util";
+import { fetchSummaryWithAllModules } from "./api/api";
+import { quarterEnds, runBacktest } from "./backtest";
+import { processAndSaveParallel, saveFlattenedResultsToCsv } from "./batch";
+import { fetchFromYahooFinance, fetchValuationHistory } from "./index";
+import { evaluateAlerts, parseAlerts } from "./lib/alerts";
+import { listCacheEntries, pruneCache } from "./lib/cache";
+import { parseCsv, saveToCsv } from "./lib/csv";
+import { UsageError } from "./lib/errors";
+import { loadJsonLines, saveJsonLines, saveWideReport } from "./lib/export";
+import { parseRules, screen } from "./lib/screener";
+import { diffSnapshots, listSnapshots, loadSnapshot, resolveSnapshot } from "./lib/snapshots";
+import { query, storePath } from "./lib/store";
+import { log } from "./lib/utils";
+import { analysePortfolio, loadPortfolio } from "./portfolio";
+import { createApiServer } from "./server";
+import { configure, settings } from "./settings";
+
+const usage = `Usage: fundamentals-yf <command> [options]
+
+Commands:
+  analyze <symbols...>      Analyse symbols and print the results as JSON
+  batch                     Analyse a list of symbols and save the reports
+    --input <file>            CSV with a "symbol" column (default ./input/symbols.csv)
+    --output <file>           Key/value CSV (default <output-dir>/symbol-key-values.csv); report.csv,
+                              results.jsonl, dcf-sensitivity.csv and errors.csv go next to it
+    --parallel <n>            Symbols analysed at once (default 3)
+    --columns <keys>          Comma-separated keys to keep in report.csv
+  portfolio                 Value a portfolio in --currency (default USD) and aggregate its fundamentals and
+                            exposures into portfolio.csv, portfolio-exposure.csv and portfolio-summary.csv
+    --input <file>            CSV with "symbol" and "shares" columns and optional "costBasis" (total paid, in
+                              the base currency) and "account" columns (default ./input/portfolio.csv)
+    --parallel <n>            Symbols analysed at once (default 3)
+  raw <symbol>              Save every quoteSummary module of a symbol as JSON
+  export                    Re-export saved batch results without fetching again
+    --format <format>         wide, long or jsonl (default wide)
+    --input <file>            JSON Lines results (default <output-dir>/results.jsonl)
+    --output <file>           Destination (default <output-dir>/report.csv, symbol-key-values.csv or results.jsonl)
+    --columns <keys>          Comma-separated keys to keep (wide only)
+  history <symbols...>      Save valuation history to <output-dir>/valuation-history.csv
+  screen [rules]            Screen batch results, rules inline or with --rules <file>
+    --input <file>            Key/value CSV (default <output-dir>/symbol-key-values.csv)
+    --output <file>           Passing symbols (default <output-dir>/screen-results.csv)
+  backtest [rules]          Screen past quarter ends point-in-time, rules inline or with --rules <file>, and
+                            compare forward 3/6/12-month returns of the passing symbols with all of them
+    --input <file>            CSV with a "symbol" column (default ./input/symbols.csv)
+    --from <date>             First quarter end, as yyyy-MM-dd (default three years ago)
+    --to <date>               Last quarter end (default today)
+    --output <file>           Returns by quarter end (default <output-dir>/backtest.csv);
+                              backtest-selections.csv goes next to it
+    --parallel <n>            Symbols analysed at once (default 3)
+  snapshots                 List the snapshots saved by batch runs
+  diff [from] [to]          Compare two snapshots: latest, previous, a name, a date or a .jsonl path
+                            (default previous and latest)
+    --output <file>           Changes by symbol and key (default <output-dir>/snapshot-diff.csv)
+    --columns <keys>          Comma-separated keys to compare, including the keys nested below them
+    --alerts <file>           Alerts to check, one per line, e.g. "valuation.fcfYield crosses above 6%";
+                              triggered alerts go to <output-dir>/alerts.csv
+  query [sql]               Run SQL against the local store and save the rows as CSV, inline or with --input <file>
+    --output <file>           Destination (default <output-dir>/query.csv)
+  serve                     Start the HTTP API
+    --port <n>                Port to listen on (default 3000)
+    --host <host>             Interface to bind (default 127.0.0.1)
+    --parallel <n>            Symbols analysed at once in batch jobs (default 3)
+  cache <list|prune>        Inspect or prune the disk cache
+    --expired                 Prune only expired entries
+    --endpoint <name>         Prune only one endpoint (chart, quoteSummary, annualStatements, ...)
+    --symbol <symbol>         Prune only one symbol
+
+Options:
+  --output-dir <dir>        Payloads, cache and default outputs (default ./output)
+  --price-years <n>         Years of daily prices (default 5)
+  --quarterly-years <n>     Years of quarterly and trailing statements (default 3)
+  --annual-years <n>        Years of annual statements (default 6)
+  --currency <code>         Express prices and statements of every symbol in one currency, e.g. USD
+  --benchmark <symbol>      Benchmark for beta and correlation (default ^GSPC)
+  --risk-free-rate <rate>   Annual risk-free rate for the Sharpe-style ratio, e.g. 0.04 (default 0)
+  --discount-rate <rate>    DCF discount rate (default 0.09)
+  --terminal-growth <rate>  DCF terminal growth rate, below the discount rate (default 0.025)
+  --high-growth-years <n>   DCF years at the starting growth rate (default 5)
+  --fade-years <n>          DCF years over which growth fades to the terminal rate (default 5)
+  --sbc-adjusted            Run the DCF on free cash flow net of stock-based compensation
+  --as-of <date>            Analyse as of a past date, as yyyy-MM-dd, with only the data known then
+  --reporting-lag <days>    Days after a period ends before its statements count as known (default 45)
+  --replay                  Run from saved payloads only, without network access
+  --refresh                 Ignore fresh cache entries
+  --cache-only              Serve everything from the cache, even when expired
+  --no-cache                Neither read nor write the cache
+  --no-store                Do not write fetched data and batch metrics to <output-dir>/fundamentals.db
+  -h, --help                Show this help`;
+
+const options = {
+    "input": { type: "string" },
+    "output": { type: "string" },
+    "parallel": { type: "string" },
+    "columns": { type: "string" },
+    "format": { type: "string" },
+    "port": { type: "string" },
+    "host": { type: "string" },
+    "rules": { type: "string" },
+    "alerts": { type: "string" },
+    "from": { type: "string" },
+    "to": { type: "string" },
+    "expired": { type: "boolean" },
+    "endpoint": { type: "string" },
+    "symbol": { type: "string" },
+    "output-dir": { type: "string" },
+    "price-years": { type: "string" },
+    "quarterly-years": { type: "string" },
+    "annual-years": { type: "string" },
+    "currency": { type: "string" },
+    "benchmark": { type: "string" },
+    "risk-free-rate": { type: "string" },
+    "discount-rate": { type: "string" },
+    "terminal-growth": { type: "string" },
+    "high-growth-years": { type: "string" },
+    "fade-years": { type: "string" },
+    "sbc-adjusted": { type: "boolean" },
+    "as-of": { type: "string" },
+    "reporting-lag": { type: "string" },
+    "replay": { type: "boolean" },
+    "refresh": { type: "boolean" },
+    "cache-only": { type: "boolean" },
+    "no-cache": { type: "boolean" },
+    "no-store": { type: "boolean" },
+    "help": { type: "boolean", short: "h" },
+} as const;
+
+type Values = ReturnType<typeof parseArgs<{ options: typeof options; allowPositionals: true }>>["values"];
+
+function positiveInteger(value: string | undefined, name: string, fallback: number) {
+    if (value === undefined) {
+        return fallback;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+        throw new UsageError(`--${name} must be a positive whole number, got "${value}"`);
+    }
+    return parsed;
+}
+
+function nonNegativeInteger(value: string | undefined, name: string, fallback: number) {
+    if (value === undefined) {
+        return fallback;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new UsageError(`--${name} must be a whole number of 0 or more, got "${value}"`);
+    }
+    return parsed;
+}
+
+function rate(value: string | undefined, name: string, fallback: number) {
+    if (value === undefined) {
+        return fallback;
+    }
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed <= -1 || parsed >= 1) {
+        throw new UsageError(`--${name} must be a fraction such as 0.04, got "${value}"`);
+    }
+    return parsed;
+}
+
+function date(value: string | undefined, name: string) {
+    if (value === undefined) {
+        return null;
+    }
+    const parsed = DateTime.fromISO(value);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || !parsed.isValid) {
+        throw new UsageError(`--${name} must be a date as yyyy-MM-dd, got "${value}"`);
+    }
+    if (parsed > DateTime.now()) {
+        throw new UsageError(`--${name} cannot be in the future, got "${value}"`);
+    }
+    return parsed;
+}
+
+function currencyCode(value: string | undefined, name: string) {
+    if (value === undefined) {
+        return null;
+    }
+    const code = value.trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(code)) {
+        throw new UsageError(`--${name} must be a three-letter ISO currency code such as USD, got "${value}"`);
+    }
+    return code;
+}
+
+async function readSymbols(input: string) {
+    const symbols = await parseCsv<{ symbol: string }>(input);
+    if (symbols.length === 0 || !symbols[0]!.symbol) {
+        throw new UsageError(`${input} needs a "symbol" column with at least one row`);
+    }
+    return symbols.map(s => s.symbol);
+}
+
+async function readRules(args: string[], values: Values, command: string) {
+    const expression = values.rules ? await fs.readFile(values.rules, "utf-8") : args.join(" ");
+    if (!expression.trim()) {
+        throw new UsageError(`${command} needs rules, either as arguments or with --rules <file>`);
+    }
+    try {
+        return parseRules(expression);
+    } catch (error: any) {
+        throw new UsageError(error?.message ?? String(error));
+    }
+}
+
+const columnList = (value: string | undefined) => value?.split(",").map(c => c.trim()).filter(c => c.length > 0);
+
+const outputPath = (filename: string) => path.join(settings.outputDir, filename);
+
+const commands: Record<string, (args: string[], values: Values) => Promise<void>> = {
+    async analyze(symbols) {
+        if (symbols.length === 0) {
+            throw new UsageError("analyze needs at least one symbol");
+        }
+        for (const symbol of symbols) {
+            const result = await fetchFromYahooFinance(symbol);
+            console.log(JSON.stringify(result, null, 4));
+        }
+    },
+
+    async batch(args, values) {
+        if (args.length > 0) {
+            throw new UsageError(`batch takes no symbols, put them in the --input CSV (got ${args.join(" ")})`);
+        }
+        const symbols = await readSymbols(values.input ?? "./input/symbols.csv");
+        const sampledSymbols = _.sampleSize(symbols, symbols.length);
+
+        await processAndSaveParallel(
+            sampledSymbols,
+            values.output ?? outputPath("symbol-key-values.csv"),
+            positiveInteger(values.parallel, "parallel", 3),
+            columnList(values.columns)
+        );
+    },
+
+    async portfolio(args, values) {
+        if (args.length > 0) {
+            throw new UsageError(`portfolio takes no symbols, put them in the --input CSV (got ${args.join(" ")})`);
+        }
+        const positions = await loadPortfolio(values.input ?? "./input/portfolio.csv");
+        if (positions.length === 0) {
+            throw new UsageError("The portfolio has no positions");
+        }
+        // Market values can only be added up in one currency.
+        configure({ reportingCurrency: settings.reportingCurrency ?? "USD" });
+
+        const { summary } = await analysePortfolio(positions, settings.outputDir, positiveInteger(values.parallel, "parallel", 3));
+        const percent = (value: number | null) => value === null ? "n/a" : `${(value * 100).toFixed(2)}%`;
+        log(`${summary.positions} positions worth ${summary.marketValue.toFixed(2)} ${settings.reportingCurrency}, unrealised P&L ${summary.unrealisedPnl?.toFixed(2) ?? "n/a"} (${percent(summary.unrealisedReturn)})`);
+        log(`Earnings yield ${percent(summary.earningsYield.value)}, FCF yield ${percent(summary.fcfYield.value)}, beta ${summary.beta.value?.toFixed(2) ?? "n/a"}`);
+        if (summary.unvalued) {
+            log(`Not valued: ${summary.unvalued}`);
+        }
+        log(`Portfolio reports saved to ${settings.outputDir}`);
+    },
+
+    async raw([symbol, ...rest]) {
+        if (!symbol || rest.length > 0) {
+            throw new UsageError("raw needs exactly one symbol");
+        }
+        const quoteSummaryAll = await fetchSummaryWithAllModules(symbol);
+        const filepath = outputPath(`${symbol}-quoteSummaryAll.json`);
+        await fs.mkdir(settings.outputDir, { recursive: true });
+        await fs.writeFile(filepath, JSON.stringify(quoteSummaryAll, null, 4));
+        log(`${symbol} >> saved to ${filepath}`);
+    },
+
+    async export(args, values) {
+        if (args.length > 0) {
+            throw new UsageError(`export takes no arguments (got ${args.join(" ")})`);
+        }
+        const format = values.format ?? "wide";
+        const results = await loadJsonLines(values.input ?? outputPath("results.jsonl"));
+        if (format === "wide") {
+            const filepath = values.output ?? outputPath("report.csv");
+            await saveWideReport(results, filepath, columnList(values.columns));
+            log(`Wide report available at ${filepath}`);
+        } else if (format === "long") {
+            await saveFlattenedResultsToCsv(results, values.output ?? outputPath("symbol-key-values.csv"));
+        } else if (format === "jsonl") {
+            const filepath = values.output ?? outputPath("results.jsonl");
+            await saveJsonLines(results, filepath);
+            log(`JSON Lines available at ${filepath}`);
+        } else {
+            throw new UsageError(`--format must be wide, long or jsonl, got "${format}"`);
+        }
+    },
+
+    async history(symbols) {
+        if (symbols.length === 0) {
+            throw new UsageError("history needs at least one symbol");
+        }
+        const rows = [];
+        for (const symbol of symbols) {
+            log(`${symbol} >> valuation history`);
+            const history = await fetchValuationHistory(symbol);
+            if (!history) {
+                log(`${symbol} >> not an equity, skipped`);
+                continue;
+            }
+            rows.push(...[...history.annual, ...history.quarterly].map(row => ({
+                symbol,
+                ...row,
+                date: row.date.toFormat("yyyy-MM-dd")
+            })));
+        }
+
+        const filepath = outputPath("valuation-history.csv");
+        await fs.mkdir(settings.outputDir, { recursive: true });
+        await saveToCsv(rows, filepath);
+        log(`Valuation history available at ${filepath}`);
+    },
+
+    async screen(args, values) {
+        const rules = await readRules(args, values, "screen");
+
+        const keyValues = await parseCsv<{ symbol: string; key: string; value: string }>(values.input ?? outputPath("symbol-key-values.csv"));
+        const records = _(keyValues)
+            .groupBy(row => row.symbol)
+            .map((rows, symbol) => ({ ..._.fromPairs(rows.map(row => [row.key, row.value])), symbol }))
+            .value();
+
+        const result = screen(records, rules);
+        if (result.unknownKeys.length) {
+            // Suggest the keys of the same section when there are any, otherwise every key the results have.
+            const validKeys = _(keyValues).filter(row => row.value !== "").map(row => row.key).uniq().sort().value();
+            const suggestions = (key: string) => {
+                const section = validKeys.filter(k => k.split(".")[0] === key.split(".")[0]);
+                return (section.length ? section : validKeys).join(", ");
+            };
+            const unknown = result.unknownKeys.map(rule => `"${rule.key}" (valid keys: ${suggestions(rule.key)})`).join("; ");
+            throw new UsageError(`No symbol has a value for ${unknown}`);
+        }
+
+        for (const stat of result.ruleStats) {
+            log(`${stat.rule} >> pass ${stat.pass}, fail ${stat.fail}, missing ${stat.missing}`);
+        }
+
+        const output = values.output ?? outputPath("screen-results.csv");
+        await saveToCsv(result.passed.map(p => ({ symbol: p.symbol, ...p.values })), output, ",", ["symbol", ..._.uniq(rules.map(r => r.key))]);
+        log(`${result.passed.length} of ${records.length} symbols passed, saved to ${output}`);
+    },
+
+    async backtest(args, values) {
+        const rules = await readRules(args, values, "backtest");
+        const symbols = await readSymbols(values.input ?? "./input/symbols.csv");
+        const from = date(values.from, "from") ?? DateTime.now().minus({ years: 3 });
+        const dates = quarterEnds(from, date(values.to, "to") ?? DateTime.now());
+        if (dates.length === 0) {
+            throw new UsageError(`No quarter end between ${from.toISODate()} and ${values.to ?? "today"}`);
+        }
+        // Fetch once with windows reaching back from the first quarter end; each date then filters what it can see.
+        configure({ asOf: dates[0]! });
+
+        const output = values.output ?? outputPath("backtest.csv");
+        const summary = await runBacktest(symbols, rules, dates, output, positiveInteger(values.parallel, "parallel", 3));
+        for (const row of summary) {
+            const excess = row.averageExcessReturn === null ? "n/a" : `${(row.averageExcessReturn * 100).toFixed(2)}%`;
+            const hitRate = row.hitRate === null ? "n/a" : `${(row.hitRate * 100).toFixed(0)}%`;
+            log(`${row.horizon} >> average excess return ${excess}, beat the universe in ${hitRate} of ${row.periods} quarters`);
+        }
+        log(`${dates.length} quarter ends tested, saved to ${output}`);
+    },
+
+    async snapshots(args) {
+        if (args.length > 0) {
+            throw new UsageError(`snapshots takes no arguments (got ${args.join(" ")})`);
+        }
+        const names = await listSnapshots();
+        names.forEach(name => console.log(name));
+        log(`${names.length} snapshots`);
+    },
+
+    async diff([from = "previous", to = "latest", ...rest], values) {
+        if (rest.length > 0) {
+            throw new UsageError(`diff compares two snapshots (got ${[from, to, ...rest].join(" ")})`);
+        }
+        const [fromPath, toPath] = [await resolveSnapshot(from), await resolveSnapshot(to)];
+        const before = await loadSnapshot(fromPath);
+        const after = await loadSnapshot(toPath);
+
+        const changes = diffSnapshots(before, after, columnList(values.columns));
+        const output = values.output ?? outputPath("snapshot-diff.csv");
+        await saveToCsv(changes, output, ",", ["symbol", "key", "kind", "before", "after", "delta"]);
+        for (const [kind, count] of Object.entries(_.countBy(changes, c => c.kind))) {
+            log(`${kind} >> ${count}`);
+        }
+        log(`${changes.length} changes from ${path.basename(fromPath)} to ${path.basename(toPath)}, saved to ${output}`);
+
+        if (values.alerts) {
+            const alerts = parseAlerts(await fs.readFile(values.alerts, "utf-8"));
+            const triggered = evaluateAlerts(alerts, before, after);
+            for (const alert of alerts) {
+                const symbols = triggered.filter(t => t.alert === alert.text).map(t => t.symbol);
+                log(`${alert.text} >> ${symbols.length ? symbols.join(", ") : "not triggered"}`);
+            }
+            const alertsPath = outputPath("alerts.csv");
+            await saveToCsv(triggered, alertsPath, ",", ["alert", "symbol", "key", "before", "after"]);
+            log(`${triggered.length} alerts triggered, saved to ${alertsPath}`);
+        }
+    },
+
+    async query(args, values) {
+        const sql = values.input ? await fs.readFile(values.input, "utf-8") : args.join(" ");
+        if (!sql.trim()) {
+            throw new UsageError("query needs SQL, either as arguments or with --input <file>");
+        }
+        const { columns, rows } = query(sql);
+        const output = values.output ?? outputPath("query.csv");
+        await fs.mkdir(path.dirname(output), { recursive: true });
+        await saveToCsv(rows, output, ",", columns);
+        log(`${rows.length} rows from ${storePath()}, saved to ${output}`);
+    },
+
+    async serve(args, values) {
+        if (args.length > 0) {
+            throw new UsageError(`serve takes no arguments (got ${args.join(" ")})`);
+        }
+        const port = positiveInteger(values.port, "port", 3000);
+        const host = values.host ?? "127.0.0.1";
+        const server = createApiServer({ parallelism: positiveInteger(values.parallel, "parallel", 3) });
+        await new Promise<void>((resolve, reject) => {
+            server.once("error", reject);
+            server.listen(port, host, resolve);
+        });
+        log(`Listening on http://${host}:${port}`);
+    },
+
+    async cache([action = "list", ...rest], values) {
+        if (rest.length > 0) {
+            throw new UsageError(`cache takes one action (got ${[action, ...rest].join(" ")})`);
+        }
+        if (action === "list") {
+            const entries = await listCacheEntries();
+            for (const entry of _.sortBy(entries, e => e.symbol, e => e.endpoint)) {
+                const status = entry.expiresAt > DateTime.now() ? "fresh" : "expired";
+                console.log([
+                    entry.symbol.padEnd(12),
+                    entry.endpoint.padEnd(24),
+                    entry.fetchedAt.toFormat("yyyy-MM-dd HH:mm"),
+                    status.padEnd(8),
+                    `${Math.round(entry.size / 1024)} KB`
+                ].join(" "));
+            }
+            log(`${entries.length} entries, ${Math.round(_.sumBy(entries, e => e.size) / 1024)} KB`);
+        } else if (action === "prune") {
+            const removed = await pruneCache({
+                expiredOnly: values.expired,
+                endpoint: values.endpoint,
+                symbol: values.symbol
+            });
+            log(`Removed ${removed.length} entries`);
+        } else {
+            throw new UsageError(`Unknown cache action "${action}", expected list or prune`);
+        }
+    },
+};
+
+async function main() {
+    let parsed;
+    try {
+        parsed = parseArgs({ args: process.argv.slice(2), options, allowPositionals: true });
+    } catch (error: any) {
+        throw new UsageError(error?.message ?? String(error));
+    }
+    const { values, positionals } = parsed;
+    const [commandName, ...args] = positionals;
+
+    if (values.help || !commandName) {
+        console.log(usage);
+        return;
+    }
+    const command = commands[commandName];
+    if (!command) {
+        throw new UsageError(`Unknown command "${commandName}"`);
+    }
+
+    configure({
+        outputDir: values["output-dir"] ?? settings.outputDir,
+        priceLookbackYears: positiveInteger(values["price-years"], "price-years", settings.priceLookbackYears),
+        quarterlyLookbackYears: positiveInteger(values["quarterly-years"], "quarterly-years", settings.quarterlyLookbackYears),
+        annualLookbackYears: positiveInteger(values["annual-years"], "annual-years", settings.annualLookbackYears),
+        reportingCurrency: currencyCode(values.currency, "currency"),
+        benchmarkSymbol: values.benchmark ?? settings.benchmarkSymbol,
+        riskFreeRate: rate(values["risk-free-rate"], "risk-free-rate", settings.riskFreeRate),
+        discountRate: rate(values["discount-rate"], "discount-rate", settings.discountRate),
+        terminalGrowthRate: rate(values["terminal-growth"], "terminal-growth", settings.terminalGrowthRate),
+        dcfHighGrowthYears: positiveInteger(values["high-growth-years"], "high-growth-years", settings.dcfHighGrowthYears),
+        dcfFadeYears: positiveInteger(values["fade-years"], "fade-years", settings.dcfFadeYears),
+        sbcAdjustedDcf: values["sbc-adjusted"] ?? false,
+        asOf: date(values["as-of"], "as-of"),
+        reportingLagDays: nonNegativeInteger(values["reporting-lag"], "reporting-lag", settings.reportingLagDays),
+        replay: values.replay ?? false,
+        useCache: !values["no-cache"],
+        forceRefresh: values.refresh ?? false,
+        useStore: !values["no-store"],
+        cacheOnly: values["cache-only"] ?? false
+    });
+
+    if (settings.discountRate <= settings.terminalGrowthRate) {
+        throw new UsageError(`--discount-rate (${settings.discountRate}) must be above --terminal-growth (${settings.terminalGrowthRate})`);
+    }
+
+    await command(args, values);
+}
+
+main().catch(error => {
+    if (error instanceof UsageError) {
+        console.error(`${error.message}\nRun with --help for usage.`);
+        process.exitCode = 2;
+        return;
+    }
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -1,154 +1,42 @@
 import _ from "lodash";
 import { DateTime } from "luxon";
 import type { ChartResultArrayQuote } from "yahoo-finance2/modules/chart";
-import { fetchAnnualStatements, fetchPrices, fetchQuarterlyStatements, fetchSummary, fetchTrailingStats } from "./api/api";
+import { fetchAnnualStatements, fetchDividends, fetchFundSummary, fetchPrices, fetchQuarterlyStatements, fetchSummary, fetchTrailingStats } from "./api/api";
 import type { AnnualStatement, PeriodType, QuarterlyStatement, StatementPayload } from "./api/types";
-
-function priceOn(date: DateTime, prices: ChartResultArrayQuote[]) {
-    const earliestPrice = _.minBy(prices, p => p.date);
-    const earliestPriceDate = earliestPrice ? DateTime.fromJSDate(earliestPrice.date) : null;
-
-    if (earliestPriceDate && date.startOf("day") < earliestPriceDate.startOf("day")) {
-        throw new Error(`Requested date ${date.toFormat("yyyy-MM-dd")} is before the earliest available price date ${earliestPriceDate.toFormat("yyyy-MM-dd")}`);
-    }
-
-    return prices
-        .filter(price => {
-            const pDate = DateTime.fromJSDate(price.date);
-            return pDate.hasSame(date, "day") || pDate.startOf("day") < date.startOf("day");
-        })
-        .sort((a, b) => b.date.getTime() - a.date.getTime())[0]?.close!;
-}
-
-async function convertCurrencyInStatements<T extends StatementPayload<PeriodType>>(statements: T[], fromCurrency: string, toCurrency: string): Promise<T[]> {
-    const pair = `${fromCurrency}${toCurrency}=X`;
-    const rates = await fetchPrices(pair);
-
-    const nonCurrencyFields = new Set([
-        "date",
-        "periodType",
-        "TYPE",
-        "basicAverageShares",
-        "dilutedAverageShares",
-        "ordinarySharesNumber",
-        "shareIssued",
-        "taxRateForCalcs"
-    ]);
-
-    return statements.map(statement => {
-        const rate = priceOn(statement.date, rates);
-        const converted = { ...statement };
-
-        for (const key of Object.keys(statement)) {
-            const k = key as keyof T;
-            const value = statement[k];
-            if (typeof value === "number" && !nonCurrencyFields.has(key)) {
-                (converted as any)[key] = value * rate;
-            }
-        }
-        return converted;
-    });
-}
-
-interface StatisticsInput {
-    date: DateTime;
-    close: number;
-    sharesOutstanding: number;
-    dilutedSharesOutstanding: number;
-    netIncome: number;
-    freeCashFlow: number;
-    stockBasedCompensation: number;
-    eps: number;
-    totalCash: number | undefined;
-    totalDebt: number | undefined;
-    totalRevenue: number | undefined;
-    operatingIncome: number | undefined;
-}
-
-function calculateValuationMetrics(input: StatisticsInput) {
-    const {
-        close, sharesOutstanding, dilutedSharesOutstanding, netIncome, freeCashFlow,
-        stockBasedCompensation, eps, date, totalCash, totalDebt, totalRevenue, operatingIncome
-    } = input;
-
-    const marketCap = close * sharesOutstanding;
-    const dilutedMarketCap = close * dilutedSharesOutstanding;
-
-    return {
-        date,
-        close,
-        sharesOutstanding,
-        dilutedSharesOutstanding,
-        marketCap,
-        dilutedMarketCap,
-        netIncome,
-        freeCashFlow,
-        stockBasedCompensation,
-        eps,
-        pe: eps ? close / eps : null,
-        fcfYield: freeCashFlow ? freeCashFlow / marketCap : null,
-        fcfYieldAdjusted: (freeCashFlow && stockBasedCompensation)
-            ? (freeCashFlow - stockBasedCompensation) / dilutedMarketCap
-            : null,
-        fcfPerShare: freeCashFlow ? freeCashFlow / sharesOutstanding : null,
-        fcfPerShareAdjusted: (freeCashFlow && stockBasedCompensation)
-            ? (freeCashFlow - stockBasedCompensation) / dilutedSharesOutstanding
-            : null,
-        totalCash,
-        totalDebt,
-        totalRevenue,
-        operatingIncome
-    };
-}
-
-function calculateTrailingStatistics(allStatements: QuarterlyStatement[], prices: ChartResultArrayQuote[]) {
-    if (allStatements.length < 4) {
-        return null;
-    }
-
-    const statements = _(allStatements).sortBy(s => s.date).takeRight(4).value();
-    const lastStatement = statements[statements.length - 1]!;
-    const sharesOutstanding = lastStatement.basicAverageShares ?? lastStatement.ordinarySharesNumber;
-    if (!sharesOutstanding) {
-        throw new Error("Shares outstanding not found");
-    }
-    const netIncome = _(statements).map(statement => statement.netIncome).sum();
-    const freeCashFlow = _(statements).map(statement => statement.freeCashFlow).sum();
-    const stockBasedCompensation = _(statements).map(statement => statement.stockBasedCompensation).sum();
-    const totalRevenue = _(statements).map(statement => statement.totalRevenue).sum();
-    const operatingIncome = _(statements).map(statement => statement.operatingIncome).sum();
-    const eps = _(statements).sumBy(s => (s.netIncome && sharesOutstanding) ? s.netIncome / sharesOutstanding : 0);
-    const date = lastStatement.date;
-    const close = priceOn(date, prices);
-
-    return calculateValuationMetrics({
-        date,
-        close,
-        sharesOutstanding,
-        dilutedSharesOutstanding: lastStatement.dilutedAverageShares || sharesOutstanding,
-        netIncome,
-        freeCashFlow,
-        stockBasedCompensation,
-        eps,
-        totalCash: lastStatement.cashCashEquivalentsAndShortTermInvestments || lastStatement.cashAndCashEquivalents,
-        totalDebt: lastStatement.totalDebt,
-        totalRevenue,
-        operatingIncome
-    });
-}
-
+import { calculateCapitalReturn } from "./analysis/capitalReturn";
+import { convertPrices, convertStatements, fetchFxSeries, fxUpTo, type FxSeries } from "./analysis/currency";
+import { validateData } from "./analysis/dataQuality";
+import { calculateDcf } from "./analysis/dcf";
+import { calculateEarningsMomentum } from "./analysis/earnings";
+import { calculateFundProfile, calculateLookThrough, type HoldingResult } from "./analysis/fund";
+import { calculateGrowth } from "./analysis/growth";
+import { calculateFinancialHealth } from "./analysis/health";
+import { calculateValuationHistory } from "./analysis/history";
+import { createMetricTracker } from "./analysis/metric";
+import { calculateOwnership } from "./analysis/ownership";
+import { calculateReturnOnCapital } from "./analysis/returnOnCapital";
+import { calculatePriceRisk } from "./analysis/risk";
+import { balanceSheetInputs, calculateEnterpriseMultiples, calculateEnterpriseValue, calculateTrailingStatistics, calculateValuationMetrics } from "./analysis/valuation";
+import { withStage } from "./lib/errors";
+import { pointInTimeSummary, pricesUpTo, reportedStatements } from "./lib/pointInTime";
+import { priceOn } from "./lib/prices";
+import { upsertSymbol } from "./lib/store";
+import { settings } from "./settings";
+
+/**
+ * Falls back to Yahoo's own TTM statement. It carries no balance-sheet lines, so debt and cash come from `balance`,
+ * the latest quarterly or annual statement.
+ */
 async function getTTMStatistics(
     symbol: string,
     prices: ChartResultArrayQuote[],
-    priceCurrency?: string,
-    statementCurrency?: string | null
+    balance: StatementPayload<PeriodType> | undefined,
+    statementFx: FxSeries | null,
+    asOf: DateTime | null
 ) {
-    const trailingStats = await fetchTrailingStats(symbol);
-    let ttmStatements: StatementPayload<"TTM">[] = trailingStats;
-
-    if (priceCurrency && statementCurrency && priceCurrency !== statementCurrency) {
-        ttmStatements = await convertCurrencyInStatements(trailingStats, statementCurrency, priceCurrency);
-    }
+    const fetched = await fetchTrailingStats(symbol);
+    const trailingStats = asOf ? reportedStatements(fetched, asOf) : fetched;
+    let ttmStatements: StatementPayload<"TTM">[] = statementFx ? convertStatements(trailingStats, statementFx) : trailingStats;
 
     const earliestPriceDate = DateTime.fromJSDate(_.minBy(prices, p => p.date)!.date).startOf("day");
     ttmStatements = ttmStatements.filter(s => s.date.startOf("day") >= earliestPriceDate);
@@ -173,80 +61,147 @@ async function getTTMStatistics(
         netIncome: statement.netIncome,
         freeCashFlow: statement.freeCashFlow,
         stockBasedCompensation: statement.stockBasedCompensation || 0,
-        eps: statement.basicEPS!,
-        totalCash: statement.cashCashEquivalentsAndShortTermInvestments || statement.cashAndCashEquivalents,
-        totalDebt: statement.totalDebt,
+        eps: statement.basicEPS ?? statement.netIncome / sharesOutstanding,
+        ...balanceSheetInputs(balance ?? statement),
         totalRevenue: statement.totalRevenue,
-        operatingIncome: statement.operatingIncome
+        operatingIncome: statement.operatingIncome,
+        ebitda: statement.EBITDA ?? statement.normalizedEBITDA,
+        ebit: statement.EBIT
     });
 }
 
-function calculateGrowth(statementsInput: (QuarterlyStatement | AnnualStatement)[]) {
-    if (statementsInput.length < 4) {
-        return null;
-    }
-
-    const statements = _(statementsInput).sortBy(s => s.date).takeRight(4).value();
-    const firstStatement = statements[0];
-    const lastStatement = statements[statements.length - 1];
-
-    if (!firstStatement || !lastStatement) {
-        return null;
-    }
-    const intervals = statements.length - 1;
-
-    const revenueGrowth = (() => {
-        const start = firstStatement.totalRevenue;
-        const end = lastStatement.totalRevenue;
-        if (!start || !end || start <= 0 || end <= 0) {
-            return null;
-        }
-        return Math.pow(end / start, 1 / intervals) - 1;
-    })();
-
-    const earningsGrowth = (() => {
-        const start = firstStatement.netIncome;
-        const end = lastStatement.netIncome;
-        if (!start || !end || start <= 0 || end <= 0) {
-            return null;
+/**
+ * Fetches everything the analysis needs and converts it to the reporting currency. With an `asOf` date only what
+ * was known then is kept: statements reported by that date, prices and FX rates up to it, and the parts of the
+ * quote summary that are not live figures.
+ */
+async function loadStatements(symbol: string, asOf: DateTime | null) {
+    const quoteSummary = await withStage(symbol, "summary", async () => {
+        const summary = await fetchSummary(symbol);
+        if (!summary.price) {
+            throw new Error("Quote summary has no price module");
         }
-        // Note: CAGR is problematic if start value is negative. 
-        // For simplicity and typical financial reporting, we return null if start earnings are non-positive.
-        return Math.pow(end / start, 1 / intervals) - 1;
-    })();
-
-    return {
-        revenue: revenueGrowth,
-        earnings: earningsGrowth
-    };
-}
-
-export async function fetchFromYahooFinance(symbol: string) {
-    const quoteSummary = await fetchSummary(symbol);
+        return asOf ? pointInTimeSummary(summary, asOf) : summary;
+    });
     const quoteType = quoteSummary.price!.quoteType;
     const priceCurrency = quoteSummary.price!.currency;
     const statementCurrency = quoteSummary.financialData?.financialCurrency;
+    const currency = settings.reportingCurrency ?? priceCurrency;
+    await withStage(symbol, "store", () => upsertSymbol({
+        symbol,
+        name: quoteSummary.price!.longName,
+        quoteType,
+        currency: priceCurrency,
+        statementCurrency,
+        sector: quoteSummary.assetProfile?.sector,
+        industry: quoteSummary.assetProfile?.industry
+    }));
+
+    const { priceFx, statementFx } = await withStage(symbol, "currency", async () => {
+        const fxSeries = async (from: string | null | undefined) => {
+            if (!from || !currency || from === currency) {
+                return null;
+            }
+            const fx = await fetchFxSeries(from, currency);
+            return asOf ? fxUpTo(fx, asOf) : fx;
+        };
+        return { priceFx: await fxSeries(priceCurrency), statementFx: await fxSeries(statementCurrency) };
+    });
 
-    const prices = await fetchPrices(symbol);
+    const listingPrices = await withStage(symbol, "prices", async () => {
+        const fetched = await fetchPrices(symbol);
+        const quotes = asOf ? pricesUpTo(fetched, asOf) : fetched;
+        if (quotes.length === 0) {
+            throw new Error(asOf ? `No price history up to ${asOf.toISODate()}` : "No price history");
+        }
+        return quotes;
+    });
+    const prices = priceFx ? convertPrices(listingPrices, priceFx) : listingPrices;
     const earliestPriceDate = DateTime.fromJSDate(_.minBy(prices, p => p.date)!.date).startOf("day");
 
-    let annualStatements = quoteType === "EQUITY" ? await fetchAnnualStatements(symbol) : [];
-    let quarterlyStatements = quoteType === "EQUITY" ? await fetchQuarterlyStatements(symbol) : [];
+    let { annualStatements, quarterlyStatements } = await withStage(symbol, "statements", async () => ({
+        annualStatements: quoteType === "EQUITY" ? await fetchAnnualStatements(symbol) : [],
+        quarterlyStatements: quoteType === "EQUITY" ? await fetchQuarterlyStatements(symbol) : []
+    }));
+    if (asOf) {
+        annualStatements = reportedStatements(annualStatements, asOf);
+        quarterlyStatements = reportedStatements(quarterlyStatements, asOf);
+    }
+
+    if (statementFx) {
+        annualStatements = convertStatements(annualStatements, statementFx);
+        quarterlyStatements = convertStatements(quarterlyStatements, statementFx);
+    }
 
+    // Growth needs every statement, but anything priced needs a close on the statement date.
+    const statementHistory = { annual: annualStatements, quarterly: quarterlyStatements };
     annualStatements = annualStatements.filter(s => s.date.startOf("day") >= earliestPriceDate);
     quarterlyStatements = quarterlyStatements.filter(s => s.date.startOf("day") >= earliestPriceDate);
 
-    if (priceCurrency && statementCurrency && priceCurrency !== statementCurrency) {
-        annualStatements = await convertCurrencyInStatements(annualStatements, statementCurrency!, priceCurrency!);
-        quarterlyStatements = await convertCurrencyInStatements(quarterlyStatements, statementCurrency!, priceCurrency!);
+    return {
+        quoteSummary, quoteType, priceCurrency, statementCurrency, currency, priceFx, statementFx,
+        prices, annualStatements, quarterlyStatements, statementHistory
+    };
+}
+
+export async function fetchValuationHistory(symbol: string) {
+    const { quoteType, prices, annualStatements, quarterlyStatements } = await loadStatements(symbol, settings.asOf);
+    if (quoteType !== "EQUITY") {
+        return null;
     }
+    return calculateValuationHistory(quarterlyStatements, annualStatements, prices);
+}
 
-    let thisPeriod = quoteType === "EQUITY" ? calculateTrailingStatistics(quarterlyStatements, prices) : null;
-    if (!thisPeriod && quoteType === "EQUITY") {
-        thisPeriod = await getTTMStatistics(symbol, prices, priceCurrency, statementCurrency);
+const fundTypes = ["ETF", "MUTUALFUND"];
+
+/** Profile of a fund plus look-through fundamentals, running the equity pipeline on each of its top holdings. */
+async function analyseFund(symbol: string, lookThrough: boolean, asOf: DateTime | null) {
+    const fetched = await withStage(symbol, "fund", () => fetchFundSummary(symbol));
+    // The fund modules are not point-in-time: trailing performance is dropped, and today's top holdings must not
+    // stand in for what the fund held at `asOf`, so there is no look-through.
+    const summary = asOf ? { ...fetched, fundPerformance: undefined } : fetched;
+    const profile = calculateFundProfile(summary);
+    const { markUnavailable, unavailable } = createMetricTracker();
+    if (asOf) {
+        markUnavailable("lookThrough", `top holdings are only known for today, not as of ${asOf.toISODate()}`);
+    }
+    if (!lookThrough || asOf) {
+        return { ...profile, lookThrough: null, unavailable };
     }
 
-    const previousPeriod = (() => {
+    const holdings = await withStage(symbol, "lookThrough", async () => {
+        const analysed: HoldingResult[] = [];
+        for (const holding of summary.topHoldings?.holdings ?? []) {
+            const result: HoldingResult["result"] = await fetchFromYahooFinance(holding.symbol, { lookThrough: false }).catch(() => null);
+            analysed.push({ symbol: holding.symbol, weight: holding.holdingPercent, result });
+        }
+        return analysed;
+    });
+    return { ...profile, lookThrough: calculateLookThrough(holdings), unavailable };
+}
+
+/**
+ * Analyses one symbol. Funds also analyse their top holdings unless `lookThrough` is off, which is how holdings
+ * are analysed so that a fund holding another fund does not recurse. `asOf` (default `settings.asOf`) runs the
+ * analysis point-in-time, as it would have come out on that date.
+ */
+export async function fetchFromYahooFinance(symbol: string, options: { lookThrough?: boolean; asOf?: DateTime | null } = {}) {
+    const asOf = options.asOf ?? settings.asOf;
+    const {
+        quoteSummary, quoteType, priceCurrency, statementCurrency, currency, priceFx, statementFx,
+        prices, annualStatements, quarterlyStatements, statementHistory
+    } = await loadStatements(symbol, asOf);
+
+    const thisPeriod = await withStage(symbol, "trailing", async () => {
+        const trailing = quoteType === "EQUITY" ? calculateTrailingStatistics(quarterlyStatements, prices) : null;
+        if (!trailing && quoteType === "EQUITY") {
+            const balance = _.maxBy([...quarterlyStatements, ...annualStatements], s => s.date.toMillis());
+            return getTTMStatistics(symbol, prices, balance, statementFx, asOf);
+        }
+        return trailing;
+    });
+
+    const previousPeriod = await withStage(symbol, "trailing", () => {
         const previousQuarterStatements = _(quarterlyStatements)
             .sortBy(s => s.date)
             .dropRight(1)
@@ -257,14 +212,40 @@ export async function fetchFromYahooFinance(symbol: string) {
             return null;
         }
         return calculateTrailingStatistics(previousQuarterStatements, prices);
-    })();
+    });
 
-    const annualGrowth = calculateGrowth(annualStatements);
-    const quarterlyGrowth = calculateGrowth(quarterlyStatements);
+    const dividends = await withStage(symbol, "dividends", async () => {
+        const fetched = await fetchDividends(symbol);
+        const events = asOf ? fetched.filter(d => DateTime.fromJSDate(d.date) <= asOf.endOf("day")) : fetched;
+        // Dividends are paid in the listing currency, so they follow the prices into the reporting currency.
+        return priceFx
+            ? events.map(d => ({ ...d, amount: d.amount * priceFx.closingRate(DateTime.fromJSDate(d.date)) }))
+            : events;
+    });
 
-    const price = quoteSummary.price!.regularMarketPrice ?? prices[prices.length - 1]!.close!;
+    // A missing benchmark only costs beta and correlation, so it does not fail the symbol.
+    const benchmarkPrices = await fetchPrices(settings.benchmarkSymbol)
+        .then(quotes => asOf ? pricesUpTo(quotes, asOf) : quotes)
+        .catch(() => null);
+
+    const fund = fundTypes.includes(quoteType)
+        ? await analyseFund(symbol, options.lookThrough ?? true, asOf)
+        : null;
+
+    // Per-share figures of the quote summary are in the listing currency, like the live price.
+    const fromListing = (value: number | undefined) => value !== undefined ? value * (priceFx?.latestRate() ?? 1) : undefined;
+    const price = fromListing(quoteSummary.price!.regularMarketPrice) ?? prices[prices.length - 1]!.close!;
     const sharesOutstanding = quoteSummary.defaultKeyStatistics?.sharesOutstanding ?? thisPeriod?.sharesOutstanding;
     const marketCap = sharesOutstanding ? price * sharesOutstanding : undefined;
+    const enterprise = thisPeriod && marketCap ? calculateEnterpriseValue(marketCap, thisPeriod) : null;
+    const { markUnavailable, unavailable: valuationUnavailable } = createMetricTracker();
+    if (quoteType === "EQUITY" && (!enterprise || enterprise.netDebt === null)) {
+        const reason = !thisPeriod ? "no trailing statistics"
+            : !marketCap ? "missing sharesOutstanding"
+            : "balance sheet has neither totalDebt nor totalCash";
+        markUnavailable("netDebt", reason);
+        markUnavailable("enterpriseValue", reason);
+    }
     const growthEstimate = (period: string) => {
         const trend = quoteSummary.earningsTrend?.trend.find(t => t.period === period);
         if (!trend) {
@@ -280,6 +261,13 @@ export async function fetchFromYahooFinance(symbol: string) {
         };
         return estimate;
     };
+    const growthEstimates = {
+        thisQuarter: growthEstimate("0q"),
+        nextQuarter: growthEstimate("+1q"),
+        thisYear: growthEstimate("0y"),
+        nextYear: growthEstimate("+1y")
+    };
+    const growth = quoteType === "EQUITY" ? calculateGrowth(statementHistory.quarterly, statementHistory.annual) : null;
     return {
         symbol,
         info: {
@@ -287,8 +275,12 @@ export async function fetchFromYahooFinance(symbol: string) {
             quoteType: quoteType,
             currency: priceCurrency,
             statementCurrency: statementCurrency,
+            reportingCurrency: currency,
+            asOf: asOf ?? null,
+            sector: quoteSummary.assetProfile?.sector ?? null,
+            industry: quoteSummary.assetProfile?.industry ?? null,
             earningsDate: quoteSummary.earnings?.earningsChart?.earningsDate[0],
-            listingDate: quoteSummary.quoteType!.firstTradeDateEpochUtc
+            listingDate: quoteSummary.quoteType?.firstTradeDateEpochUtc ?? null
         },
         keyStatistics: {
             price: price,
@@ -296,20 +288,26 @@ export async function fetchFromYahooFinance(symbol: string) {
             marketCap: quoteType === "EQUITY" ? marketCap : undefined,
             beta: quoteSummary.defaultKeyStatistics?.beta,
             fiftyTwoWeekRange: (() => {
-                const low = quoteSummary.summaryDetail?.fiftyTwoWeekLow!;
-                const high = quoteSummary.summaryDetail?.fiftyTwoWeekHigh!;
-                return (price - low) / (high - low);
+                const low = fromListing(quoteSummary.summaryDetail?.fiftyTwoWeekLow);
+                const high = fromListing(quoteSummary.summaryDetail?.fiftyTwoWeekHigh);
+                return low !== undefined && high !== undefined && high > low ? (price - low) / (high - low) : null;
             })(),
         },
         valuation: {
-            trailingPE: quoteSummary.summaryDetail!.trailingPE,
-            forwardPE: quoteSummary.summaryDetail!.forwardPE,
+            trailingPE: quoteSummary.summaryDetail?.trailingPE ?? null,
+            forwardPE: quoteSummary.summaryDetail?.forwardPE ?? null,
             fcfYield: thisPeriod?.freeCashFlow && marketCap ? thisPeriod.freeCashFlow / marketCap : null,
             fcfYieldAdjusted: thisPeriod?.fcfYieldAdjusted ?? null,
             fcfPerShare: thisPeriod?.freeCashFlow && sharesOutstanding ? thisPeriod.freeCashFlow / sharesOutstanding : null,
             fcfPerShareAdjusted: thisPeriod?.fcfPerShareAdjusted ?? null,
-            trailingEPS: quoteSummary.defaultKeyStatistics!.trailingEps,
-            forwardEPS: quoteSummary.defaultKeyStatistics!.forwardEps
+            netDebt: enterprise?.netDebt ?? null,
+            enterpriseValue: enterprise?.enterpriseValue ?? null,
+            ...(enterprise && thisPeriod
+                ? calculateEnterpriseMultiples(enterprise.enterpriseValue, thisPeriod)
+                : { evToEbitda: null, evToEbit: null, evToSales: null, evToFcf: null }),
+            trailingEPS: fromListing(quoteSummary.defaultKeyStatistics?.trailingEps) ?? null,
+            forwardEPS: fromListing(quoteSummary.defaultKeyStatistics?.forwardEps) ?? null,
+            unavailable: valuationUnavailable
         },
         thisPeriod,
         previousPeriod,
@@ -318,21 +316,47 @@ export async function fetchFromYahooFinance(symbol: string) {
             profitMargin: thisPeriod?.netIncome && thisPeriod?.totalRevenue ? thisPeriod.netIncome / thisPeriod.totalRevenue : null,
             earningsAnnualGrowth: quoteSummary.financialData?.earningsGrowth,
             quarterlyEarningsGrowth: quoteSummary.defaultKeyStatistics?.earningsQuarterlyGrowth,
-            quarterlyRevenueGrowth: quoteSummary.financialData?.revenueGrowth,
-            revenue: {
-                annual: annualGrowth?.revenue,
-                quarterly: quarterlyGrowth?.revenue
-            },
-            earnings: {
-                annual: annualGrowth?.earnings,
-                quarterly: quarterlyGrowth?.earnings
-            }
+            quarterlyRevenueGrowth: quoteSummary.financialData?.revenueGrowth
         },
-        growthEstimates: {
-            thisQuarter: growthEstimate("0q"),
-            nextQuarter: growthEstimate("+1q"),
-            thisYear: growthEstimate("0y"),
-            nextYear: growthEstimate("+1y")
-        }
+        growth,
+        priceRisk: calculatePriceRisk(prices, { symbol: settings.benchmarkSymbol, prices: benchmarkPrices }, settings.riskFreeRate),
+        financialHealth: quoteType === "EQUITY"
+            ? calculateFinancialHealth({ annualStatements, quarterlyStatements, marketCap, ttm: thisPeriod })
+            : null,
+        returnOnCapital: quoteType === "EQUITY"
+            ? calculateReturnOnCapital(quarterlyStatements, annualStatements)
+            : null,
+        capitalReturn: quoteType === "EQUITY"
+            ? calculateCapitalReturn({ dividends, prices, price, marketCap, ttm: thisPeriod, quarterlyStatements, annualStatements })
+            : null,
+        fund,
+        earnings: quoteType === "EQUITY"
+            ? calculateEarningsMomentum(quoteSummary.earningsHistory?.history ?? [], quoteSummary.earningsTrend?.trend ?? [])
+            : null,
+        ownership: quoteType === "EQUITY" ? calculateOwnership(quoteSummary, priceFx, asOf ?? undefined) : null,
+        growthEstimates,
+        dcf: quoteType === "EQUITY" && thisPeriod
+            ? calculateDcf({
+                freeCashFlow: thisPeriod.freeCashFlow,
+                stockBasedCompensation: thisPeriod.stockBasedCompensation,
+                balance: thisPeriod,
+                minorityInterest: thisPeriod.minorityInterest,
+                sharesOutstanding,
+                price,
+                growthCandidates: [
+                    { source: "analyst next year", value: growthEstimates.nextYear?.earningsGrowth },
+                    { source: "analyst this year", value: growthEstimates.thisYear?.earningsGrowth },
+                    { source: "historical FCF per share", value: growth?.fcfPerShare.cagr3y },
+                    { source: "historical revenue", value: growth?.revenue.ttm }
+                ]
+            }, {
+                discountRate: settings.discountRate,
+                terminalGrowthRate: settings.terminalGrowthRate,
+                highGrowthYears: settings.dcfHighGrowthYears,
+                fadeYears: settings.dcfFadeYears,
+                sbcAdjusted: settings.sbcAdjustedDcf
+            })
+            : null,
+        dataQuality: validateData({ quoteSummary, quarterlyStatements, annualStatements, prices }, asOf)
     };
 }
@@ -0,0 +1,79 @@
+import _ from "lodash";
+import { parseValue, toComparable } from "./screener";
+import type { SnapshotRecords } from "./snapshots";
+
+const conditions = ["crosses above", "crosses below", "rises by", "falls by", "changes"] as const;
+type Condition = typeof conditions[number];
+
+export interface Alert {
+    text: string;
+    key: string;
+    condition: Condition;
+    threshold: number | null;
+}
+
+export interface TriggeredAlert {
+    alert: string;
+    symbol: string;
+    key: string;
+    before: unknown;
+    after: unknown;
+}
+
+const alertPattern = new RegExp(`^([\\w.\\-]+)\\s+(${conditions.join("|")})(?:\\s+(.+))?$`, "i");
+
+/**
+ * Parses one alert per line, such as `valuation.fcfYield crosses above 6%`, `thisPeriod.pe rises by 5` or
+ * `thisPeriod.date changes`. Thresholds are in the units of the key, with `%` dividing by 100 as in screening
+ * rules, so `rises by` and `falls by` are absolute changes. Blank lines and `#` comments are ignored.
+ */
+export function parseAlerts(content: string): Alert[] {
+    return content
+        .split("\n")
+        .map(line => line.replace(/#.*$/, "").trim())
+        .filter(line => line.length > 0)
+        .map(text => {
+            const match = text.match(alertPattern);
+            if (!match) {
+                throw new Error(`Cannot parse alert "${text}", expected "<key> <condition> [value]" with one of: ${conditions.join(", ")}`);
+            }
+            const condition = match[2]!.toLowerCase() as Condition;
+            const threshold = match[3] === undefined ? null : parseValue(match[3]);
+            if (condition === "changes" ? threshold !== null : typeof threshold !== "number") {
+                throw new Error(`Alert "${text}": "${condition}" ${condition === "changes" ? "takes no value" : "needs a numeric value"}`);
+            }
+            return { text, key: match[1]!, condition, threshold: threshold as number | null };
+        });
+}
+
+function triggered(alert: Alert, before: unknown, after: unknown) {
+    if (alert.condition === "changes") {
+        return !_.isEqual(toComparable(before), toComparable(after));
+    }
+    const from = toComparable(before);
+    const to = toComparable(after);
+    const threshold = alert.threshold!;
+    if (typeof from !== "number" || typeof to !== "number") {
+        return false;
+    }
+    switch (alert.condition) {
+        case "crosses above": return from < threshold && to >= threshold;
+        case "crosses below": return from > threshold && to <= threshold;
+        case "rises by": return to - from >= threshold;
+        case "falls by": return from - to >= threshold;
+    }
+}
+
+/** Checks every alert for each symbol present in both snapshots. */
+export function evaluateAlerts(alerts: Alert[], before: SnapshotRecords, after: SnapshotRecords): TriggeredAlert[] {
+    const symbols = _.sortBy([...after.keys()].filter(symbol => before.has(symbol)));
+    return alerts.flatMap(alert => symbols
+        .filter(symbol => triggered(alert, before.get(symbol)![alert.key], after.get(symbol)![alert.key]))
+        .map(symbol => ({
+            alert: alert.text,
+            symbol,
+            key: alert.key,
+            before: before.get(symbol)![alert.key] ?? null,
+            after: after.get(symbol)![alert.key] ?? null
+        })));
+}
@@ -0,0 +1,133 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { DateTime, type DurationLike } from "luxon";
+import { settings } from "../settings";
+import { reviveDates } from "./utils";
+
+const cacheDir = () => `${settings.outputDir}/cache`;
+
+export interface CacheEntry {
+    key: string;
+    endpoint: string;
+    symbol: string;
+    params: Record<string, unknown>;
+    fetchedAt: DateTime;
+    expiresAt: DateTime;
+    size: number;
+}
+
+interface CacheMeta {
+    endpoint: string;
+    symbol: string;
+    params: Record<string, unknown>;
+    fetchedAt: string;
+    expiresAt: string;
+}
+
+export function cacheKey(endpoint: string, symbol: string, params: Record<string, unknown>) {
+    return createHash("sha256")
+        .update(JSON.stringify({ endpoint, symbol, params }))
+        .digest("hex");
+}
+
+const dataPath = (key: string) => `${cacheDir()}/${key}.json`;
+const metaPath = (key: string) => `${cacheDir()}/${key}.meta.json`;
+
+function toEntry(key: string, meta: CacheMeta, size: number): CacheEntry {
+    return {
+        key,
+        endpoint: meta.endpoint,
+        symbol: meta.symbol,
+        params: meta.params,
+        fetchedAt: DateTime.fromISO(meta.fetchedAt),
+        expiresAt: DateTime.fromISO(meta.expiresAt),
+        size
+    };
+}
+
+async function readMeta(key: string): Promise<CacheMeta | null> {
+    try {
+        return JSON.parse(await fs.readFile(metaPath(key), "utf-8"));
+    } catch (error: any) {
+        if (error?.code === "ENOENT") {
+            return null;
+        }
+        throw error;
+    }
+}
+
+export async function readCache<T>(key: string): Promise<{ entry: CacheEntry; data: T } | null> {
+    const meta = await readMeta(key);
+    if (!meta) {
+        return null;
+    }
+    try {
+        const raw = await fs.readFile(dataPath(key), "utf-8");
+        return { entry: toEntry(key, meta, raw.length), data: JSON.parse(raw, reviveDates) };
+    } catch (error: any) {
+        if (error?.code === "ENOENT") {
+            return null;
+        }
+        throw error;
+    }
+}
+
+export async function writeCache(endpoint: string, symbol: string, params: Record<string, unknown>, ttl: DurationLike, data: unknown) {
+    const key = cacheKey(endpoint, symbol, params);
+    const fetchedAt = DateTime.now();
+    const meta: CacheMeta = {
+        endpoint,
+        symbol,
+        params,
+        fetchedAt: fetchedAt.toISO()!,
+        expiresAt: fetchedAt.plus(ttl).toISO()!
+    };
+    await fs.mkdir(cacheDir(), { recursive: true });
+    // Data first, so a meta file never points at a payload that was not written.
+    await fs.writeFile(dataPath(key), JSON.stringify(data));
+    await fs.writeFile(metaPath(key), JSON.stringify(meta, null, 4));
+    return key;
+}
+
+export async function listCacheEntries(): Promise<CacheEntry[]> {
+    let files: string[];
+    try {
+        files = await fs.readdir(cacheDir());
+    } catch (error: any) {
+        if (error?.code === "ENOENT") {
+            return [];
+        }
+        throw error;
+    }
+
+    const entries: CacheEntry[] = [];
+    for (const file of files.filter(f => f.endsWith(".meta.json"))) {
+        const key = file.slice(0, -".meta.json".length);
+        const meta = await readMeta(key);
+        const stat = await fs.stat(dataPath(key)).catch(() => null);
+        if (meta) {
+            entries.push(toEntry(key, meta, stat?.size ?? 0));
+        }
+    }
+    return entries;
+}
+
+export interface PruneOptions {
+    expiredOnly?: boolean;
+    endpoint?: string;
+    symbol?: string;
+}
+
+export async function pruneCache(options: PruneOptions = {}) {
+    const now = DateTime.now();
+    const entries = (await listCacheEntries()).filter(entry =>
+        (!options.expiredOnly || entry.expiresAt <= now)
+        && (!options.endpoint || entry.endpoint === options.endpoint)
+        && (!options.symbol || entry.symbol === options.symbol));
+
+    for (const entry of entries) {
+        await fs.rm(dataPath(entry.key), { force: true });
+        await fs.rm(metaPath(entry.key), { force: true });
+    }
+    return entries;
+}
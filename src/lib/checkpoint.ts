@@ -0,0 +1,37 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/** Reads the records saved by an interrupted run, keyed by symbol. Later lines win over earlier ones. */
+export async function loadCheckpoint<T extends { symbol: string }>(filepath: string) {
+    const records = new Map<string, T>();
+    let content: string;
+    try {
+        content = await fs.readFile(filepath, "utf-8");
+    } catch (error: any) {
+        if (error?.code === "ENOENT") {
+            return records;
+        }
+        throw error;
+    }
+    for (const line of content.split("\n")) {
+        if (!line.trim()) {
+            continue;
+        }
+        try {
+            const record = JSON.parse(line) as T;
+            records.set(record.symbol, record);
+        } catch {
+            // The last line may be cut short if the run was killed mid-write.
+        }
+    }
+    return records;
+}
+
+/** Appends one JSON line per record, one write at a time so lines from parallel symbols never interleave. */
+export function createCheckpointWriter(filepath: string) {
+    let queue: Promise<void> = fs.mkdir(path.dirname(filepath), { recursive: true }).then(() => undefined);
+    return (record: unknown) => {
+        queue = queue.then(() => fs.appendFile(filepath, JSON.stringify(record) + "\n"));
+        return queue;
+    };
+}
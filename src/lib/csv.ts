@@ -2,9 +2,10 @@ import { AsyncParser, type ParserOptions } from "@json2csv/node";
 import { parse } from "csv-parse";
 import { createReadStream, createWriteStream } from "fs";
 
-export async function saveToCsv<T>(data: T[], filename: string, delimiter: string = ",") {
+export async function saveToCsv<T>(data: T[], filename: string, delimiter: string = ",", fields?: string[]) {
     const opts: ParserOptions = {
         delimiter,
+        fields,
     };
     const parser = new AsyncParser(opts);
 
@@ -0,0 +1,18 @@
+/** An error raised while analysing a symbol, tagged with the stage of the pipeline that failed. */
+export class AnalysisError extends Error {
+    constructor(readonly symbol: string, readonly stage: string, override readonly cause: unknown) {
+        super(cause instanceof Error ? cause.message : String(cause));
+        this.name = "AnalysisError";
+    }
+}
+
+export async function withStage<T>(symbol: string, stage: string, fn: () => Promise<T> | T): Promise<T> {
+    try {
+        return await fn();
+    } catch (error) {
+        throw error instanceof AnalysisError ? error : new AnalysisError(symbol, stage, error);
+    }
+}
+
+/** Invalid command-line input or input file; the CLI prints the message with a pointer to --help, not a stack trace. */
+export class UsageError extends Error { }
@@ -0,0 +1,84 @@
+import { promises as fs } from "fs";
+import _ from "lodash";
+import { DateTime } from "luxon";
+import path from "path";
+import { saveToCsv } from "./csv";
+import { flattenObject } from "./utils";
+
+/** Dates are written as ISO dates (`yyyy-MM-dd`) in every export, whether they are luxon or JS dates. */
+export function serializeValue(value: unknown): unknown {
+    if (DateTime.isDateTime(value)) {
+        return value.toISODate();
+    }
+    if (value instanceof Date) {
+        return DateTime.fromJSDate(value, { zone: "utc" }).toISODate();
+    }
+    if (Array.isArray(value)) {
+        return value.map(serializeValue);
+    }
+    if (_.isPlainObject(value)) {
+        return _.mapValues(value as Record<string, unknown>, serializeValue);
+    }
+    return value;
+}
+
+/**
+ * Column order for the wide report: the union of the flattened keys of every result, each key placed after the
+ * key that precedes it in the result object. Since every result is built from the same object literal this is
+ * the schema order, independent of which symbols are in the batch or the order they finished in. A section that
+ * is null for some symbols (e.g. `thisPeriod`) is dropped in favour of its fields when other symbols have them.
+ */
+export function reportColumns(records: Record<string, unknown>[]) {
+    const columns: string[] = [];
+    for (const record of _.sortBy(records, r => String(r.symbol))) {
+        let previousIndex = -1;
+        for (const key of Object.keys(record)) {
+            const index = columns.indexOf(key);
+            if (index >= 0) {
+                previousIndex = index;
+                continue;
+            }
+            columns.splice(previousIndex + 1, 0, key);
+            previousIndex += 1;
+        }
+    }
+    return columns.filter(key => !columns.some(other => other.startsWith(`${key}.`)));
+}
+
+/** Keeps the columns named in `selection`; a selection entry also matches every key nested below it. */
+export function selectColumns(columns: string[], selection: string[]) {
+    const selected = columns.filter(column =>
+        column === "symbol" || selection.some(s => column === s || column.startsWith(`${s}.`)));
+    const unknown = selection.filter(s => !selected.some(column => column === s || column.startsWith(`${s}.`)));
+    if (unknown.length) {
+        throw new Error(`Unknown report columns: ${unknown.join(", ")}`);
+    }
+    return selected;
+}
+
+export function flattenForExport(result: Record<string, unknown>) {
+    return _.mapValues(flattenObject(result), serializeValue);
+}
+
+/** One row per symbol, ordered by symbol, and one column per flattened key. */
+export async function saveWideReport(results: Record<string, unknown>[], filepath: string, selection?: string[]) {
+    const records = _.sortBy(results.map(flattenForExport), r => String(r.symbol));
+    const columns = reportColumns(records);
+    await fs.mkdir(path.dirname(filepath), { recursive: true });
+    await saveToCsv(records, filepath, ",", selection?.length ? selectColumns(columns, selection) : columns);
+}
+
+/** One JSON document per line with the unflattened result of each symbol, ordered by symbol. */
+export async function saveJsonLines(results: Record<string, unknown>[], filepath: string) {
+    await fs.mkdir(path.dirname(filepath), { recursive: true });
+    const lines = _.sortBy(results, r => String(r.symbol)).map(result => JSON.stringify(serializeValue(result)));
+    await fs.writeFile(filepath, lines.length ? lines.join("\n") + "\n" : "");
+}
+
+export async function loadJsonLines(filepath: string) {
+    const content = await fs.readFile(filepath, "utf-8");
+    return content
+        .split("\n")
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line) as Record<string, unknown>);
+}
@@ -0,0 +1,62 @@
+import _ from "lodash";
+import { DateTime } from "luxon";
+import type { ChartResultArrayQuote } from "yahoo-finance2/modules/chart";
+import type { QuoteSummaryResult } from "yahoo-finance2/modules/quoteSummary";
+import type { PeriodType, StatementPayload } from "../api/types";
+import { settings } from "../settings";
+
+/**
+ * Summary modules that only describe the present (live price statistics, analyst estimates, current holders) and
+ * so cannot be trusted for a past date. They are dropped rather than mixed into a point-in-time analysis.
+ */
+const presentOnlyModules = [
+    "summaryDetail",
+    "defaultKeyStatistics",
+    "earnings",
+    "earningsTrend",
+    "majorHoldersBreakdown",
+    "netSharePurchaseActivity",
+    "institutionOwnership",
+    "fundOwnership",
+] as const;
+
+export function isPresentOnlyModule(module: string) {
+    return (presentOnlyModules as readonly string[]).includes(module);
+}
+
+/** Whether a period ending on `date` had been reported by `asOf`, assuming results come out after the reporting lag. */
+export function isReportedBy(date: DateTime, asOf: DateTime) {
+    return date.plus({ days: settings.reportingLagDays }).startOf("day") <= asOf.startOf("day");
+}
+
+export function reportedStatements<T extends StatementPayload<PeriodType>>(statements: T[], asOf: DateTime) {
+    return statements.filter(s => isReportedBy(s.date, asOf));
+}
+
+export function pricesUpTo(prices: ChartResultArrayQuote[], asOf: DateTime) {
+    const end = asOf.endOf("day");
+    return prices.filter(p => DateTime.fromJSDate(p.date) <= end);
+}
+
+/**
+ * The parts of a quote summary that were already known at `asOf`: descriptive modules, earnings surprises for
+ * reported quarters and insider transactions up to that date. The live price is dropped so the last close up to
+ * `asOf` is used instead, and of `financialData` only the statement currency is kept.
+ */
+export function pointInTimeSummary(summary: QuoteSummaryResult, asOf: DateTime): QuoteSummaryResult {
+    const known = _.omit(summary, presentOnlyModules) as QuoteSummaryResult;
+    return {
+        ...known,
+        price: summary.price && { ...summary.price, regularMarketPrice: undefined },
+        financialData: summary.financialData
+            && _.pick(summary.financialData, ["maxAge", "financialCurrency"]) as QuoteSummaryResult["financialData"],
+        earningsHistory: summary.earningsHistory && {
+            ...summary.earningsHistory,
+            history: summary.earningsHistory.history.filter(h => h.quarter && isReportedBy(DateTime.fromJSDate(h.quarter), asOf))
+        },
+        insiderTransactions: summary.insiderTransactions && {
+            ...summary.insiderTransactions,
+            transactions: summary.insiderTransactions.transactions.filter(t => DateTime.fromJSDate(t.startDate) <= asOf.endOf("day"))
+        }
+    };
+}
@@ -0,0 +1,21 @@
+import _ from "lodash";
+import { DateTime } from "luxon";
+import type { ChartResultArrayQuote } from "yahoo-finance2/modules/chart";
+
+/** Close on `date`, or on the last trading day before it; `adjusted` uses the close adjusted for splits and dividends. */
+export function priceOn(date: DateTime, prices: ChartResultArrayQuote[], adjusted = false) {
+    const earliestPrice = _.minBy(prices, p => p.date);
+    const earliestPriceDate = earliestPrice ? DateTime.fromJSDate(earliestPrice.date) : null;
+
+    if (earliestPriceDate && date.startOf("day") < earliestPriceDate.startOf("day")) {
+        throw new Error(`Requested date ${date.toFormat("yyyy-MM-dd")} is before the earliest available price date ${earliestPriceDate.toFormat("yyyy-MM-dd")}`);
+    }
+
+    const latest = prices
+        .filter(price => {
+            const pDate = DateTime.fromJSDate(price.date);
+            return pDate.hasSame(date, "day") || pDate.startOf("day") < date.startOf("day");
+        })
+        .sort((a, b) => b.date.getTime() - a.date.getTime())[0];
+    return (adjusted ? latest?.adjclose ?? latest?.close : latest?.close)!;
+}
@@ -0,0 +1,131 @@
+import _ from "lodash";
+
+const operators = [">=", "<=", "!=", "==", ">", "<"] as const;
+type Operator = typeof operators[number];
+
+export interface Rule {
+    text: string;
+    key: string;
+    operator: Operator;
+    value: number | string;
+}
+
+export type RuleOutcome = "pass" | "fail" | "missing";
+
+export interface ScreenResult {
+    passed: { symbol: string; values: Record<string, unknown> }[];
+    ruleStats: { rule: string; pass: number; fail: number; missing: number }[];
+    unknownKeys: Rule[];
+}
+
+const rulePattern = new RegExp(`^([\\w.\\-]+)\\s*(${operators.map(o => _.escapeRegExp(o)).join("|")})\\s*(.+)$`);
+
+export function parseValue(raw: string): number | string {
+    const text = raw.trim();
+    const quoted = text.match(/^["'](.*)["']$/);
+    if (quoted) {
+        return quoted[1]!;
+    }
+    const percent = text.match(/^(-?[\d.]+)%$/);
+    if (percent) {
+        return Number(percent[1]) / 100;
+    }
+    return text !== "" && !Number.isNaN(Number(text)) ? Number(text) : text;
+}
+
+/** Splits a line on "and" outside quoted values, so `info.industry == "Oil and Gas"` stays one rule. */
+function splitConjunctions(line: string) {
+    const parts: string[] = [];
+    let start = 0;
+    for (const match of line.matchAll(/"[^"]*"|'[^']*'|\s+and\s+/gi)) {
+        if (!/^["']/.test(match[0])) {
+            parts.push(line.slice(start, match.index));
+            start = match.index + match[0].length;
+        }
+    }
+    parts.push(line.slice(start));
+    return parts;
+}
+
+/**
+ * Parses rules such as `valuation.fcfYield > 0.05 and thisPeriod.pe < 25`. Rules may also be given one per line;
+ * blank lines and `#` comments are ignored. All rules must pass for a symbol to pass the screen.
+ */
+export function parseRules(expression: string): Rule[] {
+    return expression
+        .split("\n")
+        .map(line => line.replace(/#.*$/, "").trim())
+        .filter(line => line.length > 0)
+        .flatMap(splitConjunctions)
+        .map(text => {
+            const match = text.trim().match(rulePattern);
+            if (!match) {
+                throw new Error(`Cannot parse rule "${text}", expected "<key> <operator> <value>" with one of ${operators.join(" ")}`);
+            }
+            return { text: text.trim(), key: match[1]!, operator: match[2] as Operator, value: parseValue(match[3]!) };
+        });
+}
+
+export function toComparable(value: unknown): number | string | null {
+    if (value === null || value === undefined) {
+        return null;
+    }
+    if (typeof value === "number") {
+        return Number.isFinite(value) ? value : null;
+    }
+    const text = String(value);
+    // A blank cell is missing, not zero as Number(" ") would have it.
+    if (text.trim() === "") {
+        return null;
+    }
+    return !Number.isNaN(Number(text)) ? Number(text) : text;
+}
+
+export function evaluateRule(rule: Rule, record: Record<string, unknown>): RuleOutcome {
+    const actual = toComparable(record[rule.key]);
+    if (actual === null) {
+        return "missing";
+    }
+    if (typeof actual !== typeof rule.value) {
+        // A number compared to text (or the reverse) can only satisfy "!=".
+        return rule.operator === "!=" ? "pass" : "fail";
+    }
+    const expected = rule.value;
+    switch (rule.operator) {
+        case ">": return actual > expected ? "pass" : "fail";
+        case ">=": return actual >= expected ? "pass" : "fail";
+        case "<": return actual < expected ? "pass" : "fail";
+        case "<=": return actual <= expected ? "pass" : "fail";
+        case "==": return actual === expected ? "pass" : "fail";
+        case "!=": return actual !== expected ? "pass" : "fail";
+    }
+}
+
+/**
+ * Applies rules to flattened results. A rule whose key has no value for a symbol counts as "missing" and the
+ * symbol does not pass. Rules whose key has no value for any symbol are reported in `unknownKeys`.
+ */
+export function screen(records: Record<string, unknown>[], rules: Rule[]): ScreenResult {
+    const knownKeys = new Set(records.flatMap(record =>
+        Object.keys(record).filter(key => toComparable(record[key]) !== null)));
+    const unknownKeys = rules.filter(rule => !knownKeys.has(rule.key));
+
+    const outcomes = records.map(record => ({
+        record,
+        results: rules.map(rule => evaluateRule(rule, record))
+    }));
+
+    return {
+        passed: outcomes
+            .filter(o => o.results.every(r => r === "pass"))
+            .map(o => ({
+                symbol: String(o.record.symbol),
+                values: _.fromPairs(rules.map(rule => [rule.key, o.record[rule.key]]))
+            })),
+        ruleStats: rules.map((rule, index) => {
+            const counts = _.countBy(outcomes, o => o.results[index]);
+            return { rule: rule.text, pass: counts.pass ?? 0, fail: counts.fail ?? 0, missing: counts.missing ?? 0 };
+        }),
+        unknownKeys
+    };
+}
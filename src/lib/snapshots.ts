@@ -0,0 +1,107 @@
+import { promises as fs } from "fs";
+import _ from "lodash";
+import { DateTime } from "luxon";
+import path from "path";
+import { settings } from "../settings";
+import { flattenForExport, loadJsonLines, saveJsonLines } from "./export";
+
+export type ChangeKind = "symbol added" | "symbol removed" | "new quarter" | "key added" | "key removed" | "changed";
+
+export interface SnapshotChange {
+    symbol: string;
+    key: string;
+    kind: ChangeKind;
+    before: unknown;
+    after: unknown;
+    /** `after - before` when both values are numbers. */
+    delta: number | null;
+}
+
+/** Flattened results of one snapshot, by symbol. */
+export type SnapshotRecords = Map<string, Record<string, unknown>>;
+
+const snapshotsDir = () => path.join(settings.outputDir, "snapshots");
+
+const snapshotFormat = "yyyy-MM-dd'T'HHmmss";
+
+/** Keys whose change means the symbol reported a new quarter since the earlier snapshot. */
+const quarterKeys = ["thisPeriod.date"];
+
+/** Saves the results of a run as `<outputDir>/snapshots/<yyyy-MM-ddTHHmmss>.jsonl`, so names sort by date. */
+export async function saveSnapshot(results: Record<string, unknown>[], at = DateTime.now()) {
+    const filepath = path.join(snapshotsDir(), `${at.toFormat(snapshotFormat)}.jsonl`);
+    await saveJsonLines(results, filepath);
+    return filepath;
+}
+
+export async function listSnapshots() {
+    try {
+        const files = await fs.readdir(snapshotsDir());
+        return files.filter(file => file.endsWith(".jsonl")).map(file => file.replace(/\.jsonl$/, "")).sort();
+    } catch (error: any) {
+        if (error?.code === "ENOENT") {
+            return [];
+        }
+        throw error;
+    }
+}
+
+/**
+ * Finds a snapshot file from `latest`, `previous` (the one before the latest), a snapshot name, a date
+ * (`yyyy-MM-dd`, resolving to the last snapshot of that day) or a path to a JSON Lines file.
+ */
+export async function resolveSnapshot(reference: string) {
+    if (reference.endsWith(".jsonl") && path.basename(reference) !== reference) {
+        return reference;
+    }
+    const names = await listSnapshots();
+    const name = reference === "latest" ? names.at(-1)
+        : reference === "previous" ? names.at(-2)
+        : _.findLast(names, n => n === reference.replace(/\.jsonl$/, "") || n.startsWith(reference));
+    if (!name) {
+        throw new Error(`No snapshot matches "${reference}" in ${snapshotsDir()} (${names.length} snapshots saved)`);
+    }
+    return path.join(snapshotsDir(), `${name}.jsonl`);
+}
+
+export async function loadSnapshot(filepath: string): Promise<SnapshotRecords> {
+    const results = await loadJsonLines(filepath);
+    return new Map(results.map(result => {
+        const record = flattenForExport(result);
+        return [String(record.symbol), record];
+    }));
+}
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === "";
+
+/**
+ * Compares two snapshots symbol by symbol and key by key. Symbols present in only one snapshot are reported once,
+ * not key by key. `keys`, when given, limits the comparison to those keys and the keys nested below them.
+ */
+export function diffSnapshots(before: SnapshotRecords, after: SnapshotRecords, keys?: string[]): SnapshotChange[] {
+    const selected = (key: string) => !keys?.length || keys.some(k => key === k || key.startsWith(`${k}.`));
+    const changes: SnapshotChange[] = [];
+
+    for (const symbol of _.sortBy(_.union([...before.keys()], [...after.keys()]))) {
+        const previous = before.get(symbol);
+        const current = after.get(symbol);
+        if (!previous || !current) {
+            changes.push({ symbol, key: "symbol", kind: previous ? "symbol removed" : "symbol added", before: previous ? symbol : null, after: current ? symbol : null, delta: null });
+            continue;
+        }
+
+        for (const key of _.union(Object.keys(previous), Object.keys(current)).filter(selected)) {
+            const [from, to] = [previous[key], current[key]];
+            if (_.isEqual(from, to) || (isEmpty(from) && isEmpty(to))) {
+                continue;
+            }
+            const kind: ChangeKind = isEmpty(from) ? "key added"
+                : isEmpty(to) ? "key removed"
+                : quarterKeys.includes(key) ? "new quarter"
+                : "changed";
+            const delta = typeof from === "number" && typeof to === "number" ? to - from : null;
+            changes.push({ symbol, key, kind, before: from ?? null, after: to ?? null, delta });
+        }
+    }
+    return changes;
+}
@@ -0,0 +1,229 @@
+import { mkdirSync } from "fs";
+import { DateTime } from "luxon";
+import { createRequire } from "module";
+import type { DatabaseSync, SQLInputValue } from "node:sqlite";
+import path from "path";
+import type { ChartResultArrayQuote } from "yahoo-finance2/modules/chart";
+import type { PeriodType, StatementPayload } from "../api/types";
+import { settings } from "../settings";
+import { log } from "./utils";
+
+const schema = `
+CREATE TABLE IF NOT EXISTS symbols (
+    symbol TEXT PRIMARY KEY,
+    name TEXT,
+    quote_type TEXT,
+    currency TEXT,
+    statement_currency TEXT,
+    sector TEXT,
+    industry TEXT,
+    updated_at TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS statement_items (
+    symbol TEXT NOT NULL,
+    date TEXT NOT NULL,
+    period_type TEXT NOT NULL,
+    field TEXT NOT NULL,
+    value REAL,
+    PRIMARY KEY (symbol, date, period_type, field)
+);
+CREATE INDEX IF NOT EXISTS statement_items_field ON statement_items (field, period_type, date);
+CREATE TABLE IF NOT EXISTS prices (
+    symbol TEXT NOT NULL,
+    date TEXT NOT NULL,
+    open REAL,
+    high REAL,
+    low REAL,
+    close REAL,
+    adjclose REAL,
+    volume REAL,
+    PRIMARY KEY (symbol, date)
+);
+CREATE TABLE IF NOT EXISTS fx_rates (
+    from_currency TEXT NOT NULL,
+    to_currency TEXT NOT NULL,
+    date TEXT NOT NULL,
+    rate REAL NOT NULL,
+    PRIMARY KEY (from_currency, to_currency, date)
+);
+CREATE TABLE IF NOT EXISTS runs (
+    run_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    started_at TEXT NOT NULL,
+    symbols INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS metrics (
+    run_id INTEGER NOT NULL REFERENCES runs (run_id),
+    symbol TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value,
+    PRIMARY KEY (run_id, symbol, key)
+);
+`;
+
+const nonStatementFields = new Set(["date", "periodType", "TYPE"]);
+
+export const storePath = () => path.join(settings.outputDir, "fundamentals.db");
+
+let database: { path: string; db: DatabaseSync } | null = null;
+
+let sqlite: typeof import("node:sqlite") | null | undefined;
+
+/**
+ * `node:sqlite`, loaded on first use rather than imported, or null on runtimes without it (Node before 22.13). There
+ * the store is skipped with a warning, so every command still runs on the Node versions the tool supports.
+ */
+function loadSqlite() {
+    if (sqlite === undefined) {
+        try {
+            sqlite = createRequire(import.meta.url)("node:sqlite") as typeof import("node:sqlite");
+        } catch {
+            sqlite = null;
+            log(`The local store needs the built-in node:sqlite module (Node 22.13+ or Bun), which ${process.release.name} ${process.version} does not provide; continuing without it`);
+        }
+    }
+    return sqlite;
+}
+
+/** Whether to write to the store: on unless `--no-store`, and only where `node:sqlite` is available. */
+const storing = () => settings.useStore && loadSqlite() !== null;
+
+/** The store of the current output directory, opened and migrated on first use. */
+function open() {
+    const filepath = storePath();
+    if (database?.path !== filepath) {
+        database?.db.close();
+        mkdirSync(path.dirname(filepath), { recursive: true });
+        const module = loadSqlite();
+        if (!module) {
+            throw new Error(`The local store is not available on ${process.release.name} ${process.version}, run this on Node 22.13+ or Bun`);
+        }
+        const db = new module.DatabaseSync(filepath);
+        db.exec("PRAGMA journal_mode = WAL");
+        db.exec(schema);
+        database = { path: filepath, db };
+    }
+    return database.db;
+}
+
+function transaction(db: DatabaseSync, fn: () => void) {
+    db.exec("BEGIN");
+    try {
+        fn();
+        db.exec("COMMIT");
+    } catch (error) {
+        db.exec("ROLLBACK");
+        throw error;
+    }
+}
+
+const isoDate = (date: DateTime | Date) => (DateTime.isDateTime(date) ? date : DateTime.fromJSDate(date, { zone: "utc" })).toISODate()!;
+
+export function upsertSymbol(symbol: {
+    symbol: string; name?: string | null; quoteType?: string; currency?: string | null; statementCurrency?: string | null;
+    sector?: string | null; industry?: string | null;
+}) {
+    if (!storing()) {
+        return;
+    }
+    open().prepare(`
+        INSERT INTO symbols (symbol, name, quote_type, currency, statement_currency, sector, industry, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (symbol) DO UPDATE SET
+            name = excluded.name, quote_type = excluded.quote_type, currency = excluded.currency,
+            statement_currency = excluded.statement_currency, sector = excluded.sector, industry = excluded.industry,
+            updated_at = excluded.updated_at
+    `).run(symbol.symbol, symbol.name ?? null, symbol.quoteType ?? null, symbol.currency ?? null,
+        symbol.statementCurrency ?? null, symbol.sector ?? null, symbol.industry ?? null, DateTime.now().toISO());
+}
+
+/** Stores every numeric line item as reported, in the statement currency, one row per field. */
+export function upsertStatements(symbol: string, statements: StatementPayload<PeriodType>[]) {
+    if (!storing() || statements.length === 0) {
+        return;
+    }
+    const db = open();
+    const insert = db.prepare(`
+        INSERT INTO statement_items (symbol, date, period_type, field, value) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (symbol, date, period_type, field) DO UPDATE SET value = excluded.value
+    `);
+    transaction(db, () => {
+        for (const statement of statements) {
+            const date = isoDate(statement.date);
+            for (const [field, value] of Object.entries(statement)) {
+                if (typeof value === "number" && !nonStatementFields.has(field)) {
+                    insert.run(symbol, date, statement.periodType, field, value);
+                }
+            }
+        }
+    });
+}
+
+/** Stores daily quotes in the listing currency. FX pairs are stored here too, under their Yahoo symbol. */
+export function upsertPrices(symbol: string, quotes: ChartResultArrayQuote[]) {
+    if (!storing() || quotes.length === 0) {
+        return;
+    }
+    const db = open();
+    const insert = db.prepare(`
+        INSERT INTO prices (symbol, date, open, high, low, close, adjclose, volume) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (symbol, date) DO UPDATE SET
+            open = excluded.open, high = excluded.high, low = excluded.low, close = excluded.close,
+            adjclose = excluded.adjclose, volume = excluded.volume
+    `);
+    transaction(db, () => {
+        for (const quote of quotes) {
+            insert.run(symbol, isoDate(quote.date), quote.open ?? null, quote.high ?? null, quote.low ?? null,
+                quote.close ?? null, quote.adjclose ?? null, quote.volume ?? null);
+        }
+    });
+}
+
+/** Stores the daily rates used to convert `from` into `to`, including triangulated ones. */
+export function upsertFxRates(from: string, to: string, points: { date: DateTime; rate: number }[]) {
+    if (!storing() || points.length === 0) {
+        return;
+    }
+    const db = open();
+    const insert = db.prepare(`
+        INSERT INTO fx_rates (from_currency, to_currency, date, rate) VALUES (?, ?, ?, ?)
+        ON CONFLICT (from_currency, to_currency, date) DO UPDATE SET rate = excluded.rate
+    `);
+    transaction(db, () => {
+        for (const point of points) {
+            insert.run(from, to, isoDate(point.date), point.rate);
+        }
+    });
+}
+
+/** Records the flattened results of a batch run as one row per symbol and key, and returns the run id. */
+export function recordRun(records: Record<string, unknown>[], startedAt = DateTime.now()) {
+    if (!storing()) {
+        return null;
+    }
+    const db = open();
+    const { lastInsertRowid } = db.prepare("INSERT INTO runs (started_at, symbols) VALUES (?, ?)").run(startedAt.toISO(), records.length);
+    const insert = db.prepare("INSERT INTO metrics (run_id, symbol, key, value) VALUES (?, ?, ?, ?)");
+    transaction(db, () => {
+        for (const record of records) {
+            for (const [key, value] of Object.entries(record)) {
+                if (key === "symbol" || value === null || value === undefined || value === "") {
+                    continue;
+                }
+                const stored: SQLInputValue = typeof value === "number" || typeof value === "string" ? value
+                    : typeof value === "boolean" ? Number(value)
+                    : JSON.stringify(value);
+                insert.run(lastInsertRowid, String(record.symbol), key, stored);
+            }
+        }
+    });
+    return Number(lastInsertRowid);
+}
+
+/** Runs one SQL statement against the store and returns its rows along with the result column names. */
+export function query(sql: string) {
+    const rows = open().prepare(sql).all().map(row => ({ ...row }));
+    return {
+        columns: rows[0] ? Object.keys(rows[0]) : [],
+        rows
+    };
+}
@@ -1,20 +1,40 @@
-import { DateTime } from "luxon";
+import { DateTime, type DurationLike } from "luxon";
 
 export function log(text: string) {
     const timestamp = DateTime.now().toFormat("HH:mm:ss.SSS");
     console.log(`${timestamp} >> ${text}`);
 }
 
-export function memoize<T>(fn: (arg: string) => Promise<T>): (arg: string) => Promise<T> {
-    const cache = new Map<string, Promise<T>>();
-    return (arg: string) => {
-        if (cache.has(arg)) {
-            return cache.get(arg)!;
+/**
+ * Shares one call per argument between concurrent and later callers. With a `ttl` an entry is dropped once it is
+ * that old, so long-running processes pick up fresh data, and expired entries are swept whenever a new one is
+ * added so the cache does not grow without bound. `clear` drops every entry.
+ */
+export function memoize<T>(fn: (arg: string) => Promise<T>, ttl?: DurationLike): ((arg: string) => Promise<T>) & { clear(): void } {
+    const cache = new Map<string, { promise: Promise<T>; expiresAt: DateTime | null }>();
+    const memoized = (arg: string) => {
+        const now = DateTime.now();
+        const cached = cache.get(arg);
+        if (cached && (!cached.expiresAt || cached.expiresAt > now)) {
+            return cached.promise;
+        }
+        for (const [key, entry] of cache) {
+            if (entry.expiresAt && entry.expiresAt <= now) {
+                cache.delete(key);
+            }
         }
         const promise = fn(arg);
-        cache.set(arg, promise);
+        const entry = { promise, expiresAt: ttl ? now.plus(ttl) : null };
+        cache.set(arg, entry);
+        // A failed call must not be served again, otherwise retries would only see the same rejection.
+        promise.catch(() => {
+            if (cache.get(arg) === entry) {
+                cache.delete(arg);
+            }
+        });
         return promise;
     };
+    return Object.assign(memoized, { clear: () => cache.clear() });
 }
 
 export function flattenObject(obj: Record<string, unknown>, prefix = ""): Record<string, unknown> {
@@ -28,3 +48,9 @@ export function flattenObject(obj: Record<string, unknown>, prefix = ""): Record
         return acc;
     }, {});
 }
+
+const isoDatePattern = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+export function reviveDates(_key: string, value: unknown) {
+    return typeof value === "string" && isoDatePattern.test(value) ? new Date(value) : value;
+}
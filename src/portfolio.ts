@@ -0,0 +1,66 @@
+import { promises as fs } from "fs";
+import _ from "lodash";
+import pLimit from "p-limit";
+import path from "path";
+import { calculatePortfolio, type Position, type PositionResult } from "./analysis/portfolio";
+import { fetchFromYahooFinance } from "./index";
+import { parseCsv, saveToCsv } from "./lib/csv";
+import { AnalysisError, UsageError } from "./lib/errors";
+import { flattenForExport } from "./lib/export";
+import { log } from "./lib/utils";
+
+const positionColumns = [
+    "account", "symbol", "name", "quoteType", "currency", "sector", "shares", "price", "marketValue", "weight",
+    "costBasis", "unrealisedPnl", "unrealisedReturn", "earningsYield", "fcfYield", "revenueGrowth", "earningsGrowth", "beta"
+];
+
+/**
+ * Reads positions from a CSV with `symbol` and `shares` columns and optional `costBasis` (total paid, in the base
+ * currency) and `account` columns. Rows without an account go to the "default" account.
+ */
+export async function loadPortfolio(filepath: string): Promise<Position[]> {
+    const rows = await parseCsv<{ symbol?: string; shares?: string; costBasis?: string; account?: string }>(filepath);
+    return rows.map((row, i) => {
+        const line = i + 2;
+        const symbol = row.symbol?.trim();
+        const shares = Number(row.shares);
+        const costBasis = row.costBasis?.trim() ? Number(row.costBasis) : null;
+        if (!symbol) {
+            throw new UsageError(`${filepath} line ${line}: missing symbol`);
+        }
+        if (!row.shares?.trim() || !Number.isFinite(shares) || shares === 0) {
+            throw new UsageError(`${filepath} line ${line}: shares must be a non-zero number, got "${row.shares ?? ""}"`);
+        }
+        if (costBasis !== null && !Number.isFinite(costBasis)) {
+            throw new UsageError(`${filepath} line ${line}: costBasis must be a number, got "${row.costBasis}"`);
+        }
+        return { symbol: symbol.toUpperCase(), shares, costBasis, account: row.account?.trim() || "default" };
+    });
+}
+
+/**
+ * Analyses every symbol in the portfolio once and saves `portfolio.csv` (one row per position), `portfolio-exposure.csv`
+ * (market value by currency, statement currency, sector, quote type and account) and `portfolio-summary.csv` (the
+ * flattened portfolio metrics as key/value rows) to `outputDir`. Symbols that fail are logged and left unvalued.
+ */
+export async function analysePortfolio(positions: Position[], outputDir: string, parallelism = 3) {
+    const limit = pLimit(parallelism);
+    const results = new Map<string, PositionResult>();
+    await Promise.all(_.uniq(positions.map(p => p.symbol)).map(symbol => limit(async () => {
+        try {
+            results.set(symbol, await fetchFromYahooFinance(symbol));
+        } catch (error: any) {
+            const stage = error instanceof AnalysisError ? error.stage : "metrics";
+            log(`${symbol} >> failed at ${stage}: ${error?.message}`);
+        }
+    })));
+
+    const portfolio = calculatePortfolio(positions, results);
+    await fs.mkdir(outputDir, { recursive: true });
+    await saveToCsv(portfolio.positions, path.join(outputDir, "portfolio.csv"), ",", positionColumns);
+    await saveToCsv(portfolio.exposures, path.join(outputDir, "portfolio-exposure.csv"), ",",
+        ["dimension", "group", "positions", "marketValue", "weight"]);
+    await saveToCsv(Object.entries(flattenForExport(portfolio.summary)).map(([key, value]) => ({ key, value })),
+        path.join(outputDir, "portfolio-summary.csv"), ",", ["key", "value"]);
+    return portfolio;
+}
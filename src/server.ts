@@ -0,0 +1,235 @@
+import { randomUUID } from "crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import _ from "lodash";
+import { DateTime } from "luxon";
+import pLimit from "p-limit";
+import { fetchAnnualStatements, fetchPrices, fetchQuarterlyStatements, fetchTrailingStats } from "./api/api";
+import type { PeriodType, StatementPayload } from "./api/types";
+import { calculateRelativeValuation } from "./analysis/peers";
+import type { AnalysisResult } from "./batch";
+import { fetchFromYahooFinance } from "./index";
+import { AnalysisError } from "./lib/errors";
+import { serializeValue } from "./lib/export";
+import { log, memoize } from "./lib/utils";
+
+class HttpError extends Error {
+    constructor(readonly status: number, readonly code: string, message: string) {
+        super(message);
+        this.name = "HttpError";
+    }
+}
+
+const symbolPattern = /^[A-Za-z0-9.\-^=]{1,20}$/;
+const maxBatchSymbols = 200;
+const maxBodyBytes = 64 * 1024;
+
+/** How long an analysis is served to later requests for the same symbol before it is recomputed. */
+const analysisTtl = { hours: 1 };
+
+/** Finished batch jobs are kept for polling this long. */
+const jobRetention = { hours: 24 };
+
+const statementFetchers = {
+    quarterly: fetchQuarterlyStatements,
+    annual: fetchAnnualStatements,
+    trailing: fetchTrailingStats,
+} as const;
+
+interface BatchJob {
+    id: string;
+    status: "running" | "done";
+    createdAt: DateTime;
+    finishedAt: DateTime | null;
+    symbols: string[];
+    completed: number;
+    results: AnalysisResult[];
+    errors: { symbol: string; stage: string; message: string }[];
+}
+
+function parseSymbol(value: string) {
+    let symbol: string;
+    try {
+        symbol = decodeURIComponent(value).toUpperCase();
+    } catch {
+        throw new HttpError(400, "invalid_symbol", `"${value}" is not a valid symbol`);
+    }
+    if (!symbolPattern.test(symbol)) {
+        throw new HttpError(400, "invalid_symbol", `"${symbol}" is not a valid symbol`);
+    }
+    return symbol;
+}
+
+function parseDate(value: string | null, name: string) {
+    if (value === null) {
+        return null;
+    }
+    const date = DateTime.fromISO(value);
+    if (!date.isValid || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        throw new HttpError(400, "invalid_parameter", `${name} must be a date as yyyy-MM-dd, got "${value}"`);
+    }
+    return date;
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<unknown> {
+    let body = "";
+    for await (const chunk of request) {
+        body += chunk;
+        if (body.length > maxBodyBytes) {
+            throw new HttpError(413, "body_too_large", `Request body exceeds ${maxBodyBytes} bytes`);
+        }
+    }
+    try {
+        return JSON.parse(body);
+    } catch {
+        throw new HttpError(400, "invalid_json", "Request body is not valid JSON");
+    }
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(serializeValue(body)));
+}
+
+function sendError(response: ServerResponse, error: unknown) {
+    if (error instanceof HttpError) {
+        sendJson(response, error.status, { error: { code: error.code, message: error.message } });
+    } else if (error instanceof AnalysisError) {
+        sendJson(response, 502, { error: { code: "analysis_failed", message: error.message, symbol: error.symbol, stage: error.stage } });
+    } else {
+        sendJson(response, 500, { error: { code: "internal_error", message: error instanceof Error ? error.message : String(error) } });
+    }
+}
+
+/**
+ * HTTP API over the analysis and the raw fetchers. Concurrent and repeated requests for a symbol share one
+ * analysis, statement fetch and price fetch for an hour, and raw data comes through the same disk cache as the CLI. Batch jobs run in the
+ * background with `parallelism` symbols at a time and are polled by id. Errors are JSON objects of the form
+ * `{ "error": { "code", "message" } }`, with the symbol and failing stage when an analysis fails.
+ */
+export function createApiServer({ parallelism = 3 } = {}) {
+    const analyse = memoize(symbol => fetchFromYahooFinance(symbol), analysisTtl);
+    const statements = _.mapValues(statementFetchers,
+        fetcher => memoize<StatementPayload<PeriodType>[]>(symbol => fetcher(symbol), analysisTtl));
+    const prices = memoize(fetchPrices, analysisTtl);
+    const jobs = new Map<string, BatchJob>();
+    const limit = pLimit(parallelism);
+
+    const startBatch = (symbols: string[]) => {
+        for (const [id, job] of jobs) {
+            if (job.finishedAt && job.finishedAt.plus(jobRetention) < DateTime.now()) {
+                jobs.delete(id);
+            }
+        }
+        const job: BatchJob = {
+            id: randomUUID(), status: "running", createdAt: DateTime.now(), finishedAt: null,
+            symbols, completed: 0, results: [], errors: []
+        };
+        jobs.set(job.id, job);
+
+        Promise.all(symbols.map(symbol => limit(async () => {
+            try {
+                job.results.push(await analyse(symbol));
+            } catch (error: any) {
+                const stage = error instanceof AnalysisError ? error.stage : "metrics";
+                job.errors.push({ symbol, stage, message: error?.message ?? String(error) });
+            }
+            job.completed++;
+        }))).then(() => {
+            job.results = calculateRelativeValuation(_.sortBy(job.results, r => r.symbol));
+        }).catch(error => {
+            job.errors.push({ symbol: "*", stage: "peers", message: error?.message ?? String(error) });
+        }).finally(() => {
+            job.status = "done";
+            job.finishedAt = DateTime.now();
+            log(`batch ${job.id} >> done, ${job.results.length} results, ${job.errors.length} errors`);
+        });
+        return job;
+    };
+
+    const routes: { method: string; pattern: RegExp; handler: (match: string[], url: URL, request: IncomingMessage) => Promise<[number, unknown]> }[] = [
+        {
+            method: "GET",
+            pattern: /^\/symbols\/([^/]+)$/,
+            handler: async ([symbol]) => [200, await analyse(parseSymbol(symbol!))]
+        },
+        {
+            method: "GET",
+            pattern: /^\/symbols\/([^/]+)\/statements$/,
+            handler: async ([symbol], url) => {
+                const period = url.searchParams.get("period") ?? "quarterly";
+                if (!(period in statementFetchers)) {
+                    throw new HttpError(400, "invalid_parameter", `period must be one of ${Object.keys(statementFetchers).join(", ")}, got "${period}"`);
+                }
+                const fetched = await statements[period as keyof typeof statementFetchers](parseSymbol(symbol!));
+                return [200, _.sortBy(fetched, s => s.date.toMillis())];
+            }
+        },
+        {
+            method: "GET",
+            pattern: /^\/symbols\/([^/]+)\/prices$/,
+            handler: async ([symbol], url) => {
+                const from = parseDate(url.searchParams.get("from"), "from");
+                const to = parseDate(url.searchParams.get("to"), "to");
+                const quotes = await prices(parseSymbol(symbol!));
+                return [200, quotes.filter(p => {
+                    const date = DateTime.fromJSDate(p.date);
+                    return (!from || date >= from.startOf("day")) && (!to || date <= to.endOf("day"));
+                })];
+            }
+        },
+        {
+            method: "POST",
+            pattern: /^\/batch$/,
+            handler: async (_match, _url, request) => {
+                const body = await readJsonBody(request);
+                const symbols = (body as { symbols?: unknown })?.symbols;
+                if (!Array.isArray(symbols) || symbols.length === 0 || symbols.some(s => typeof s !== "string")) {
+                    throw new HttpError(400, "invalid_body", `Body must be {"symbols": ["AAPL", ...]} with at least one symbol`);
+                }
+                if (symbols.length > maxBatchSymbols) {
+                    throw new HttpError(400, "invalid_body", `A batch takes at most ${maxBatchSymbols} symbols, got ${symbols.length}`);
+                }
+                const job = startBatch(_.uniq(symbols.map(parseSymbol)));
+                return [202, { jobId: job.id, status: job.status, symbols: job.symbols.length }];
+            }
+        },
+        {
+            method: "GET",
+            pattern: /^\/batch\/([^/]+)$/,
+            handler: async ([id]) => {
+                const job = jobs.get(id!);
+                if (!job) {
+                    throw new HttpError(404, "job_not_found", `No batch job with id "${id}"`);
+                }
+                return [200, {
+                    jobId: job.id,
+                    status: job.status,
+                    createdAt: job.createdAt.toISO(),
+                    finishedAt: job.finishedAt?.toISO() ?? null,
+                    symbols: job.symbols.length,
+                    completed: job.completed,
+                    results: job.status === "done" ? job.results : null,
+                    errors: job.errors
+                }];
+            }
+        },
+    ];
+
+    return createServer(async (request, response) => {
+        try {
+            const url = new URL(request.url ?? "/", "http://localhost");
+            const matching = routes.filter(route => route.pattern.test(url.pathname));
+            if (matching.length === 0) {
+                throw new HttpError(404, "not_found", `No route for ${url.pathname}`);
+            }
+            const route = matching.find(r => r.method === request.method);
+            if (!route) {
+                throw new HttpError(405, "method_not_allowed", `${request.method} is not allowed on ${url.pathname}, use ${matching.map(r => r.method).join(", ")}`);
+            }
+            const [status, body] = await route.handler(url.pathname.match(route.pattern)!.slice(1), url, request);
+            sendJson(response, status, body);
+        } catch (error) {
+            sendError(response, error);
+        }
+    });
+}
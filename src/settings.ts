@@ -0,0 +1,71 @@
+import type { DateTime } from "luxon";
+
+export interface Settings {
+    /** Directory for saved payloads, the cache and the default output files. */
+    outputDir: string;
+    /** Years of daily prices to fetch; one extra month is added so the oldest statement still has a price. */
+    priceLookbackYears: number;
+    /** Years of quarterly statements to fetch, also used for the trailing statements. TTM-over-TTM growth needs three. */
+    quarterlyLookbackYears: number;
+    /** Years of annual statements to fetch; a 5-year CAGR needs six fiscal years. */
+    annualLookbackYears: number;
+    /** Express prices and statements of every symbol in this currency (e.g. "USD") instead of its listing currency. */
+    reportingCurrency: string | null;
+    /** Symbol that beta and correlation are measured against. */
+    benchmarkSymbol: string;
+    /** Annual risk-free rate subtracted from returns in the Sharpe-style ratio, as a fraction (0.04 for 4%). */
+    riskFreeRate: number;
+    /** Annual rate future free cash flows are discounted at in the DCF, as a fraction. */
+    discountRate: number;
+    /** Growth rate of free cash flow after the DCF forecast years; must be below the discount rate. */
+    terminalGrowthRate: number;
+    /** DCF years at the starting growth rate, which is analyst growth where there is any. */
+    dcfHighGrowthYears: number;
+    /** DCF years over which growth fades linearly from the starting rate to the terminal rate. */
+    dcfFadeYears: number;
+    /** Project free cash flow net of stock-based compensation in the DCF. */
+    sbcAdjustedDcf: boolean;
+    /**
+     * Analyse as of this date instead of today: statements must have been reported by then, and prices, FX rates and
+     * dividends stop at it. Fetch windows are measured back from it. Null for a live analysis.
+     */
+    asOf: DateTime | null;
+    /** Days after a period ends before its statements count as reported in point-in-time mode. */
+    reportingLagDays: number;
+    /** Run every fetcher against the payloads saved in `<outputDir>/payloads` instead of Yahoo Finance. */
+    replay: boolean;
+    /** Read and write the on-disk cache in `<outputDir>/cache`. */
+    useCache: boolean;
+    /** Ignore cached payloads even when they are still fresh, and cache what comes back. */
+    forceRefresh: boolean;
+    /** Upsert fetched statements, prices and FX rates, and the metrics of batch runs, into `<outputDir>/fundamentals.db`. */
+    useStore: boolean;
+    /** Serve every fetch from the cache, stale or not, and fail instead of calling Yahoo Finance. */
+    cacheOnly: boolean;
+}
+
+export const settings: Settings = {
+    outputDir: "./output",
+    priceLookbackYears: 5,
+    quarterlyLookbackYears: 3,
+    annualLookbackYears: 6,
+    reportingCurrency: null,
+    benchmarkSymbol: "^GSPC",
+    riskFreeRate: 0,
+    discountRate: 0.09,
+    terminalGrowthRate: 0.025,
+    dcfHighGrowthYears: 5,
+    dcfFadeYears: 5,
+    sbcAdjustedDcf: false,
+    asOf: null,
+    reportingLagDays: 45,
+    replay: false,
+    useCache: true,
+    forceRefresh: false,
+    useStore: true,
+    cacheOnly: false
+};
+
+export function configure(overrides: Partial<Settings>) {
+    Object.assign(settings, overrides);
+}